@@ -476,4 +476,4 @@ export const DinoRunnerABI = [
     "stateMutability": "nonpayable",
     "type": "function"
   }
-];
\ No newline at end of file
+] as const;
\ No newline at end of file
@@ -2,6 +2,8 @@
 import { PostHog } from 'posthog-node';
 import dotenv from 'dotenv';
 import { Logger } from 'winston';
+import { RpcEndpointHealth } from './rpc-transport';
+import { getTransactionType } from './transaction-types';
 
 dotenv.config();
 
@@ -84,30 +86,19 @@ export class AnalyticsService {
       }
     });
     
-    // Additional events for PostHog insights
-    if (txData.type === 'gameover') {
-      // Track game completion event
+    // Additional event the transaction type declares for PostHog insights
+    const analyticsEvent = getTransactionType(txData.type)?.analyticsEvent;
+    if (analyticsEvent) {
       this.posthog.capture({
         distinctId: txData.player_address || 'anonymous',
-        event: 'game_completed',
+        event: analyticsEvent.name,
         properties: {
-          score: txData.score,
-          game_id: txData.game_id,
+          ...analyticsEvent.properties(txData),
           timestamp: Date.now()
         }
       });
-    } else if (txData.type === 'setplayer') {
-        // Track player registration event
-        this.posthog.capture({
-          distinctId: txData.player_address || 'anonymous',
-          event: 'player_registered',
-          properties: {
-            player_name: txData.username,
-            timestamp: Date.now()
-          }
-        });
-      }
     }
+  }
 
   /**
    * Track transaction confirmation on blockchain
@@ -130,6 +121,29 @@ export class AnalyticsService {
     });
   }
 
+  /**
+   * Track RPC endpoint health after each probe round
+   */
+  trackRpcHealth(endpoints: RpcEndpointHealth[]) {
+    if (!this.posthog) return;
+    
+    for (const endpoint of endpoints) {
+      this.posthog.capture({
+        distinctId: 'system',
+        event: 'rpc_endpoint_health',
+        properties: {
+          endpoint: endpoint.endpoint,
+          active: endpoint.active,
+          score: endpoint.score,
+          latency_ms: endpoint.latencyMs,
+          error_rate: endpoint.errorRate,
+          cooling_down: endpoint.coolingDownUntil !== null,
+          block_number: endpoint.blockNumber
+        }
+      });
+    }
+  }
+
   /**
    * Track complete game session with rich metadata
    */
@@ -0,0 +1,299 @@
+// server/src/auth.ts
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { Logger } from 'winston';
+import { isAddress, recoverMessageAddress } from 'viem';
+
+dotenv.config();
+
+// Configurable constants
+const AUTH_CHALLENGE_TTL_MS = parseInt(process.env.AUTH_CHALLENGE_TTL_MS || '300000'); // 5 minutes
+const AUTH_APP_NAME = process.env.AUTH_APP_NAME || 'Dino Runner';
+const SESSION_TOKEN_TTL_MS = parseInt(process.env.SESSION_TOKEN_TTL_MS || '86400000'); // 24 hours
+
+export type AuthChallenge = {
+  nonce: string;
+  message: string;
+  expiresAt: number;
+};
+
+export type AuthVerification = {
+  valid: boolean;
+  reason?: string;
+};
+
+export type SessionToken = {
+  token: string;
+  sessionId: string;
+  expiresAt: number;
+};
+
+export type AuthSession = {
+  sessionId: string;
+  playerAddress: string;
+  expiresAt: number;
+};
+
+/**
+ * Make sure a session token secret exists before workers are forked.
+ * Workers inherit the primary's environment, so a generated secret is shared
+ * by the whole cluster (but not across restarts).
+ */
+export function ensureSessionSecret(logger: Logger) {
+  if (!process.env.SESSION_TOKEN_SECRET) {
+    process.env.SESSION_TOKEN_SECRET = crypto.randomBytes(32).toString('hex');
+    logger.warn('SESSION_TOKEN_SECRET not set, generated a temporary secret. Sessions will not survive a restart.');
+  }
+}
+
+function getSessionSecret(): string {
+  // Read lazily so forked workers see the primary's value
+  const secret = process.env.SESSION_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function hmac(payload: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Sign a set of claims into a compact `payload.signature` token
+ */
+export function signToken(claims: object): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${hmac(payload)}`;
+}
+
+/**
+ * Check a token's signature and return its claims. Expiry and any
+ * server-side state are left to the caller.
+ * @returns The decoded claims, or null if the token is malformed or tampered with
+ */
+export function verifyToken<T>(token: unknown): T | null {
+  if (typeof token !== 'string') return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(hmac(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issues single-use sign-in challenges, verifies wallet signatures against them
+ * and hands out resumable session tokens. Challenges and sessions live in Postgres
+ * so any worker can verify state created by another.
+ */
+export class AuthService {
+  private pool: Pool;
+  private logger: Logger;
+
+  constructor(pool: Pool, logger: Logger) {
+    this.pool = pool;
+    this.logger = logger;
+  }
+
+  /**
+   * Build the message the player is asked to sign
+   */
+  private buildMessage(address: string, nonce: string, issuedAt: Date, expiresAt: Date): string {
+    return [
+      `${AUTH_APP_NAME} wants you to sign in with your wallet.`,
+      '',
+      `Address: ${address}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expiration Time: ${expiresAt.toISOString()}`,
+    ].join('\n');
+  }
+
+  /**
+   * Create a new challenge for a player address
+   * @param playerAddress Wallet address that will sign the challenge
+   */
+  async createChallenge(playerAddress: string): Promise<AuthChallenge> {
+    if (!isAddress(playerAddress)) {
+      throw new Error('Invalid player address');
+    }
+
+    const normalizedAddress = playerAddress.toLowerCase();
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + AUTH_CHALLENGE_TTL_MS);
+    const message = this.buildMessage(normalizedAddress, nonce, issuedAt, expiresAt);
+
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO dino_auth_challenges (nonce, player_address, message, expires_at)
+         VALUES ($1, $2, $3, $4)`,
+        [nonce, normalizedAddress, message, expiresAt]
+      );
+    } finally {
+      client.release();
+    }
+
+    return { nonce, message, expiresAt: expiresAt.getTime() };
+  }
+
+  /**
+   * Consume a challenge and check that it was signed by the claimed address.
+   * The challenge is marked used before the signature is checked, so a failed
+   * attempt cannot be retried with the same nonce.
+   */
+  async verifyChallenge(playerAddress: string, nonce: string, signature: string): Promise<AuthVerification> {
+    if (!playerAddress || !nonce || !signature) {
+      return { valid: false, reason: 'Missing address, nonce or signature' };
+    }
+
+    const normalizedAddress = playerAddress.toLowerCase();
+
+    const client = await this.pool.connect();
+    let message: string | null = null;
+    try {
+      const result = await client.query(
+        `UPDATE dino_auth_challenges
+         SET used_at = NOW()
+         WHERE nonce = $1 AND player_address = $2 AND used_at IS NULL AND expires_at > NOW()
+         RETURNING message`,
+        [nonce, normalizedAddress]
+      );
+      message = result.rows[0]?.message ?? null;
+    } finally {
+      client.release();
+    }
+
+    if (!message) {
+      return { valid: false, reason: 'Challenge expired, already used or not found' };
+    }
+
+    try {
+      const recovered = await recoverMessageAddress({
+        message,
+        signature: signature as `0x${string}`
+      });
+
+      if (recovered.toLowerCase() !== normalizedAddress) {
+        this.logger.warn(`Signature mismatch for ${normalizedAddress}: recovered ${recovered}`);
+        return { valid: false, reason: 'Signature does not match address' };
+      }
+
+      return { valid: true };
+    } catch (error) {
+      this.logger.warn(`Failed to recover signer for ${normalizedAddress}:`, error);
+      return { valid: false, reason: 'Malformed signature' };
+    }
+  }
+
+  /**
+   * Issue a signed session token for an authenticated address
+   * @param playerAddress Address proven by a verified challenge
+   */
+  async issueSessionToken(playerAddress: string): Promise<SessionToken> {
+    const normalizedAddress = playerAddress.toLowerCase();
+    const sessionId = crypto.randomBytes(16).toString('hex');
+    const issuedAt = Date.now();
+    const expiresAt = issuedAt + SESSION_TOKEN_TTL_MS;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO dino_auth_sessions (session_id, player_address, expires_at)
+         VALUES ($1, $2, $3)`,
+        [sessionId, normalizedAddress, new Date(expiresAt)]
+      );
+    } finally {
+      client.release();
+    }
+
+    const token = signToken({
+      sid: sessionId,
+      sub: normalizedAddress,
+      iat: issuedAt,
+      exp: expiresAt
+    });
+
+    return {
+      token,
+      sessionId,
+      expiresAt
+    };
+  }
+
+  /**
+   * Check a session token's signature, expiry and revocation state
+   * @returns The session, or null if the token must not be trusted
+   */
+  async verifySessionToken(token: string): Promise<AuthSession | null> {
+    const claims = verifyToken<{ sid: string; sub: string; exp: number }>(token);
+
+    if (!claims || !claims.sid || !claims.sub || !claims.exp || claims.exp <= Date.now()) {
+      return null;
+    }
+
+    // Revocation is stored in Postgres so every worker sees it
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT 1 FROM dino_auth_sessions
+         WHERE session_id = $1 AND player_address = $2 AND revoked_at IS NULL AND expires_at > NOW()`,
+        [claims.sid, claims.sub]
+      );
+      if (result.rowCount === 0) return null;
+    } finally {
+      client.release();
+    }
+
+    return {
+      sessionId: claims.sid,
+      playerAddress: claims.sub,
+      expiresAt: claims.exp
+    };
+  }
+
+  /**
+   * Revoke a single session
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE dino_auth_sessions SET revoked_at = NOW() WHERE session_id = $1 AND revoked_at IS NULL',
+        [sessionId]
+      );
+      this.logger.info(`Revoked session ${sessionId}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Revoke every active session for an address
+   */
+  async revokeAllSessions(playerAddress: string): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'UPDATE dino_auth_sessions SET revoked_at = NOW() WHERE player_address = $1 AND revoked_at IS NULL',
+        [playerAddress.toLowerCase()]
+      );
+      this.logger.info(`Revoked ${result.rowCount} sessions for ${playerAddress}`);
+      return result.rowCount || 0;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,149 @@
+// server/src/circuit-breaker.ts
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { Logger } from 'winston';
+
+dotenv.config();
+
+// Configurable constants
+const CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5'); // consecutive failures before opening
+const CIRCUIT_COOLDOWN_MS = parseInt(process.env.CIRCUIT_COOLDOWN_MS || '60000'); // 1 minute before the first probe
+const CIRCUIT_MAX_COOLDOWN_MS = parseInt(process.env.CIRCUIT_MAX_COOLDOWN_MS || '900000'); // cool-down doubles per failed probe, up to 15 minutes
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitSnapshot = {
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+  retryAt?: number;   // when an open circuit lets a probe through
+  reason?: string;    // why it last changed state
+};
+
+/**
+ * Circuit breaker for one relay wallet. Closed wallets send normally. After
+ * CIRCUIT_FAILURE_THRESHOLD consecutive failures the circuit opens and the
+ * wallet gets no work until the cool-down passes; it then goes half-open and
+ * its next transaction is a probe. A successful probe closes the circuit, a
+ * failed one opens it again with a longer cool-down. State changes are stored
+ * in dino_wallet_circuit_events.
+ */
+export class WalletCircuitBreaker {
+  private pool: Pool;
+  private logger: Logger;
+  private walletIndex: number;
+  private address: string;
+  private onChange: () => void;
+  private state: CircuitState = 'closed';
+  private failures: number = 0;
+  private cooldownMs: number = CIRCUIT_COOLDOWN_MS;
+  private openedAt?: number;
+  private retryAt?: number;
+  private reason?: string;
+
+  /**
+   * @param onChange Called after every state change
+   */
+  constructor(pool: Pool, logger: Logger, walletIndex: number, address: string, onChange: () => void = () => {}) {
+    this.pool = pool;
+    this.logger = logger;
+    this.walletIndex = walletIndex;
+    this.address = address;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Whether the wallet may be given work. An open circuit whose cool-down has
+   * passed moves to half-open here.
+   */
+  isAvailable(): boolean {
+    if (this.state === 'open' && Date.now() >= (this.retryAt || 0)) {
+      this.transition('half-open', 'cool-down elapsed, waiting for probe');
+    }
+    return this.state !== 'open';
+  }
+
+  /**
+   * Whether the next transaction is the probe of a half-open circuit
+   */
+  isProbing(): boolean {
+    return this.state === 'half-open';
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    if (this.state !== 'closed') {
+      this.cooldownMs = CIRCUIT_COOLDOWN_MS;
+      this.transition('closed', 'probe succeeded');
+    }
+  }
+
+  recordFailure(reason: string) {
+    this.failures += 1;
+
+    if (this.state === 'half-open') {
+      this.cooldownMs = Math.min(this.cooldownMs * 2, CIRCUIT_MAX_COOLDOWN_MS);
+      this.open(`probe failed: ${reason}`);
+    } else if (this.state === 'closed' && this.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+      this.open(`${this.failures} consecutive failures, last: ${reason}`);
+    }
+  }
+
+  /**
+   * Close the circuit by hand
+   */
+  reset(reason: string = 'manual reset') {
+    this.failures = 0;
+    this.cooldownMs = CIRCUIT_COOLDOWN_MS;
+    if (this.state !== 'closed') {
+      this.transition('closed', reason);
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt,
+      retryAt: this.state === 'open' ? this.retryAt : undefined,
+      reason: this.reason
+    };
+  }
+
+  private open(reason: string) {
+    this.openedAt = Date.now();
+    this.retryAt = this.openedAt + this.cooldownMs;
+    this.transition('open', reason);
+  }
+
+  private transition(to: CircuitState, reason: string) {
+    const from = this.state;
+    this.state = to;
+    this.reason = reason;
+
+    const message = `Wallet ${this.walletIndex} circuit ${from} -> ${to}: ${reason}`;
+    if (to === 'open') {
+      this.logger.warn(`${message} (retry in ${this.cooldownMs / 1000}s)`);
+    } else {
+      this.logger.info(message);
+    }
+
+    this.record(from, to, reason).catch(error => {
+      this.logger.error(`Failed to record circuit change for wallet ${this.walletIndex}:`, error);
+    });
+    this.onChange();
+  }
+
+  private async record(from: CircuitState, to: CircuitState, reason: string) {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO dino_wallet_circuit_events (wallet_index, wallet_address, from_state, to_state, reason, failures)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [this.walletIndex, this.address, from, to, reason.slice(0, 500), this.failures]
+      );
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,271 @@
+// server/src/confirmation-tracker.ts
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { createPublicClient } from 'viem';
+import { Logger } from 'winston';
+import { classifyFailure } from './dead-letter';
+import { RpcRouter } from './rpc-transport';
+
+dotenv.config();
+
+// Configurable constants
+const CONFIRMATION_POLL_INTERVAL = parseInt(process.env.CONFIRMATION_POLL_INTERVAL || '1000'); // ms between block number checks
+const CONFIRMATION_BATCH_SIZE = parseInt(process.env.CONFIRMATION_BATCH_SIZE || '50'); // receipts per JSON-RPC batch
+const CONFIRMATION_RPC_BUDGET = parseInt(process.env.CONFIRMATION_RPC_BUDGET || '1200'); // RPC calls per minute
+const CONFIRMATION_MAX_OUTSTANDING = parseInt(process.env.CONFIRMATION_MAX_OUTSTANDING || '2000'); // sent rows loaded per block
+const CONFIRMATION_STALE_HOURS = parseInt(process.env.CONFIRMATION_STALE_HOURS || '12'); // give up on hashes without a receipt
+const CONFIRMATION_DEPTH = parseInt(process.env.CONFIRMATION_DEPTH || '3'); // blocks, counting the including one, before a row is final
+const BUDGET_WINDOW_MS = 60000;
+
+// Final states, or the state a reorged row went back to
+export type ConfirmationStatus = 'confirmed' | 'failed' | 'sent' | 'pending';
+
+export type ConfirmationUpdate = {
+  status: ConfirmationStatus;
+  receipt: any | null;
+  blockNumber: number | null;
+  blockHash: string | null;
+  reorged: boolean; // the row's block changed or its transaction left the chain
+  error?: string;   // why a failed row failed
+};
+
+/**
+ * Confirms one deployment's sent transactions as blocks arrive on its chain.
+ * Each new block triggers a pass over every outstanding hash (least recently
+ * checked first), fetching receipts in JSON-RPC batches. RPC calls are capped
+ * at CONFIRMATION_RPC_BUDGET per minute; hashes that don't fit in a pass are
+ * checked on the next block.
+ *
+ * A receipt records its block number and hash on the row, which stays 'sent'
+ * until CONFIRMATION_DEPTH blocks include it. If a later receipt names another
+ * block the row follows it; if the receipt disappears the row goes back to
+ * 'sent' while the node still knows the transaction, or to 'pending' to be
+ * sent again.
+ */
+export class ConfirmationTracker {
+  private pool: Pool;
+  private logger: Logger;
+  private publicClient: any;
+  private deployment: string;
+  private onUpdate: (tx: any, update: ConfirmationUpdate) => void;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private active: boolean = false;
+  private lastBlock: bigint | null = null;
+  private lastCheckedAt: Map<string, number> = new Map();
+  private windowStart: number = Date.now();
+  private callsThisWindow: number = 0;
+
+  constructor(
+    pool: Pool,
+    logger: Logger,
+    rpcRouter: RpcRouter,
+    deployment: string,
+    onUpdate: (tx: any, update: ConfirmationUpdate) => void
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.deployment = deployment;
+    this.onUpdate = onUpdate;
+
+    // Receipt lookups for one pass go out as a few batched HTTP requests
+    this.publicClient = createPublicClient({
+      chain: rpcRouter.chain,
+      transport: rpcRouter.createTransport({ batchSize: CONFIRMATION_BATCH_SIZE })
+    });
+  }
+
+  start() {
+    this.stop();
+    this.active = true;
+    this.schedule();
+    this.logger.info(`Confirmation tracker started: polling blocks every ${CONFIRMATION_POLL_INTERVAL}ms, depth ${CONFIRMATION_DEPTH}, ${CONFIRMATION_RPC_BUDGET} RPC calls per minute`);
+  }
+
+  stop() {
+    this.active = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private schedule() {
+    // Re-armed after each pass so passes never overlap
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.logger.error('Error in confirmation tracker:', error);
+      }
+      if (this.active) {
+        this.schedule();
+      }
+    }, CONFIRMATION_POLL_INTERVAL);
+  }
+
+  private rollWindow() {
+    if (Date.now() - this.windowStart >= BUDGET_WINDOW_MS) {
+      this.windowStart = Date.now();
+      this.callsThisWindow = 0;
+    }
+  }
+
+  /**
+   * Take up to `wanted` calls from this minute's budget
+   * @returns The number of calls granted
+   */
+  private takeBudget(wanted: number): number {
+    this.rollWindow();
+    const granted = Math.max(0, Math.min(wanted, CONFIRMATION_RPC_BUDGET - this.callsThisWindow));
+    this.callsThisWindow += granted;
+    return granted;
+  }
+
+  private async poll() {
+    if (this.takeBudget(1) === 0) return;
+
+    const blockNumber = BigInt(await this.publicClient.getBlockNumber());
+    if (this.lastBlock !== null && blockNumber <= this.lastBlock) return;
+    this.lastBlock = blockNumber;
+
+    const rows = await this.fetchOutstanding();
+    if (rows.length === 0) {
+      this.lastCheckedAt.clear();
+      return;
+    }
+
+    // Least recently checked first, so every hash gets its turn under the budget
+    const known = new Set(rows.map(row => row.hash));
+    for (const hash of this.lastCheckedAt.keys()) {
+      if (!known.has(hash)) this.lastCheckedAt.delete(hash);
+    }
+    rows.sort((a, b) => (this.lastCheckedAt.get(a.hash) || 0) - (this.lastCheckedAt.get(b.hash) || 0));
+
+    const toCheck = rows.slice(0, this.takeBudget(rows.length));
+    if (toCheck.length < rows.length) {
+      this.logger.debug(`RPC budget allows ${toCheck.length} of ${rows.length} receipt checks at block ${blockNumber}`);
+    }
+
+    for (let i = 0; i < toCheck.length; i += CONFIRMATION_BATCH_SIZE) {
+      const batch = toCheck.slice(i, i + CONFIRMATION_BATCH_SIZE);
+      const receipts = await Promise.all(batch.map(row => this.getReceipt(row.hash)));
+
+      for (let j = 0; j < batch.length; j++) {
+        this.lastCheckedAt.set(batch[j].hash, Date.now());
+        await this.applyReceipt(batch[j], receipts[j], blockNumber);
+      }
+    }
+  }
+
+  private async fetchOutstanding(): Promise<any[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM dino_transaction_queue
+         WHERE status = 'sent' AND hash IS NOT NULL AND deployment = $2
+         ORDER BY timestamp ASC
+         LIMIT $1`,
+        [CONFIRMATION_MAX_OUTSTANDING, this.deployment]
+      );
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async getReceipt(hash: string): Promise<any | null> {
+    try {
+      return await this.publicClient.getTransactionReceipt({ hash: hash as `0x${string}` });
+    } catch (error: any) {
+      if (error?.name !== 'TransactionReceiptNotFoundError') {
+        this.logger.warn(`Error fetching receipt for ${hash}: ${error instanceof Error ? error.message : error}`);
+      }
+      return null;
+    }
+  }
+
+  private async applyReceipt(tx: any, receipt: any | null, latestBlock: bigint) {
+    if (receipt) {
+      const blockNumber = BigInt(receipt.blockNumber);
+      const moved = tx.block_hash !== null && tx.block_hash !== receipt.blockHash;
+      if (moved) {
+        this.logger.warn(`Transaction ${tx.hash} moved from block ${tx.block_number} (${tx.block_hash}) to ${blockNumber} (${receipt.blockHash})`);
+      }
+
+      if (latestBlock - blockNumber + BigInt(1) >= BigInt(CONFIRMATION_DEPTH)) {
+        const status = receipt.status === 'success' ? 'confirmed' : 'failed';
+        const error = status === 'failed' ? `Transaction reverted in block ${blockNumber}` : undefined;
+        await this.update(tx, { status, receipt, blockNumber: Number(blockNumber), blockHash: receipt.blockHash, reorged: moved, error });
+      } else if (tx.block_hash !== receipt.blockHash) {
+        await this.update(tx, { status: 'sent', receipt, blockNumber: Number(blockNumber), blockHash: receipt.blockHash, reorged: moved });
+      }
+      return;
+    }
+
+    if (tx.block_hash !== null) {
+      // Included earlier, gone now: reorged out
+      if (this.takeBudget(1) === 0) return;
+      const known = await this.getTransaction(tx.hash);
+      const status = known ? 'sent' : 'pending';
+      this.logger.warn(`Transaction ${tx.hash} left block ${tx.block_number} in a reorg, back to ${status}`);
+      await this.update(tx, { status, receipt: null, blockNumber: null, blockHash: null, reorged: true });
+    } else if (Number(tx.timestamp) < Date.now() - CONFIRMATION_STALE_HOURS * 3600000) {
+      this.logger.warn(`Marking transaction ${tx.hash} as failed (no receipt after ${CONFIRMATION_STALE_HOURS} hours)`);
+      const error = `No receipt after ${CONFIRMATION_STALE_HOURS} hours`;
+      await this.update(tx, { status: 'failed', receipt: null, blockNumber: null, blockHash: null, reorged: false, error });
+    }
+  }
+
+  private async getTransaction(hash: string): Promise<any | null> {
+    try {
+      return await this.publicClient.getTransaction({ hash: hash as `0x${string}` });
+    } catch (error: any) {
+      if (error?.name !== 'TransactionNotFoundError') {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  private async update(tx: any, update: ConfirmationUpdate) {
+    // The hash check skips rows whose transaction was replaced since they were loaded
+    const client = await this.pool.connect();
+    let updated: boolean;
+    try {
+      const result = await client.query(
+        `UPDATE dino_transaction_queue
+         SET status = $1, block_number = $2, block_hash = $3,
+             last_error = COALESCE($6, last_error), error_class = COALESCE($7, error_class),
+             lease_owner = NULL, lease_expires_at = NULL
+         WHERE id = $4 AND hash = $5 AND status = 'sent'`,
+        [update.status, update.blockNumber, update.blockHash, tx.id, tx.hash,
+         update.error ?? null, update.error ? classifyFailure(update.error) : null]
+      );
+      updated = (result.rowCount || 0) > 0;
+
+      // A confirmed game over proves its leaderboard score on-chain
+      if (updated && update.status === 'confirmed' && tx.type === 'gameover') {
+        await client.query(
+          `UPDATE dino_leaderboard SET verified_on_chain = true, tx_hash = $1
+           WHERE game_id = $2 AND player_address = $3`,
+          [tx.hash, tx.game_id, tx.player_address]
+        );
+      }
+    } finally {
+      client.release();
+    }
+
+    if (!updated) return;
+
+    tx.block_number = update.blockNumber;
+    tx.block_hash = update.blockHash;
+    if (update.status !== 'sent') {
+      this.lastCheckedAt.delete(tx.hash);
+    }
+
+    // Inclusion at less than the full depth isn't news to anyone
+    if (update.status !== 'sent' || update.reorged) {
+      this.onUpdate(tx, update);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+// server/src/dead-letter-admin.ts
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import winston from 'winston';
+import { DeadLetterQueue, FailureClass } from './dead-letter';
+
+dotenv.config();
+
+/**
+ * Operator commands for dino_dead_letters. Replayed letters go back to the
+ * queue as 'pending' rows, which the relay's DB poller sends like any other.
+ * Replayed letters are hidden from list unless --all is given.
+ *
+ * Usage:
+ *   npm run dead-letters -- list [--class <class>] [--type <type>] [--all] [--limit <n>]
+ *   npm run dead-letters -- show <id>
+ *   npm run dead-letters -- edit <id> [--score <n>] [--height <n>] [--username <name>]
+ *   npm run dead-letters -- replay <id...> | --class <class>
+ */
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.simple()
+  ),
+  transports: [new winston.transports.Console()]
+});
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  max: 2,
+  connectionTimeoutMillis: 10000
+});
+
+const FAILURE_CLASSES: FailureClass[] = ['revert', 'nonce', 'insufficient_funds', 'rpc_timeout', 'unknown'];
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function parseClass(args: string[]): FailureClass | undefined {
+  const errorClass = option(args, '--class');
+  if (errorClass !== undefined && !FAILURE_CLASSES.includes(errorClass as FailureClass)) {
+    throw new Error(`Class must be one of ${FAILURE_CLASSES.join(', ')}`);
+  }
+  return errorClass as FailureClass | undefined;
+}
+
+function parseId(value: string | undefined): number {
+  const id = parseInt(value || '');
+  if (isNaN(id)) throw new Error(`Invalid dead letter id ${value}`);
+  return id;
+}
+
+function parseNumber(args: string[], name: string): number | undefined {
+  const value = option(args, name);
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value);
+  if (isNaN(parsed) || parsed < 0) throw new Error(`${name} must be a non-negative integer`);
+  return parsed;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const deadLetters = new DeadLetterQueue(pool, logger);
+
+  switch (command) {
+    case 'list': {
+      const letters = await deadLetters.list({
+        errorClass: parseClass(args),
+        type: option(args, '--type'),
+        includeReplayed: args.includes('--all'),
+        limit: parseNumber(args, '--limit')
+      });
+      console.table(letters.map(letter => ({
+        id: letter.id,
+        deployment: letter.deployment,
+        type: letter.type,
+        player: letter.player_address,
+        game: letter.game_id,
+        class: letter.error_class,
+        retries: letter.retries,
+        dead_at: letter.dead_at,
+        replays: letter.replay_count,
+        error: (letter.last_error || '').slice(0, 60)
+      })));
+      break;
+    }
+    case 'show': {
+      const id = parseId(args[0]);
+      const letter = await deadLetters.get(id);
+      if (!letter) throw new Error(`No dead letter ${id}`);
+      console.log(JSON.stringify(letter, null, 2));
+      break;
+    }
+    case 'edit': {
+      const id = parseId(args[0]);
+      const changes = {
+        score: parseNumber(args, '--score'),
+        height: parseNumber(args, '--height'),
+        username: option(args, '--username')
+      };
+      if (Object.values(changes).every(value => value === undefined)) {
+        throw new Error('edit needs --score, --height or --username');
+      }
+      const letter = await deadLetters.edit(id, changes);
+      console.log(JSON.stringify(letter, null, 2));
+      break;
+    }
+    case 'replay': {
+      const errorClass = parseClass(args);
+      const ids = errorClass
+        ? (await deadLetters.list({ errorClass, limit: 1000 })).map(letter => letter.id)
+        : args.map(parseId);
+      if (ids.length === 0) throw new Error('replay needs dead letter ids or --class <class>');
+
+      const replayed = await deadLetters.replay(ids);
+      logger.info(`Replayed ${replayed.size} dead letters`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command ${command}; use list, show, edit or replay`);
+  }
+}
+
+main()
+  .catch(error => {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
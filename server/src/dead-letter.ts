@@ -0,0 +1,260 @@
+// server/src/dead-letter.ts
+import dotenv from 'dotenv';
+import { Pool, PoolClient } from 'pg';
+import { Logger } from 'winston';
+import { getTransactionPriority } from './queue-priority';
+
+dotenv.config();
+
+// Configurable constants
+const DEAD_LETTER_REVERT_RETRIES = parseInt(process.env.DEAD_LETTER_REVERT_RETRIES || '2'); // reverts rarely succeed on retry
+const MAX_ERROR_LENGTH = 2000;
+
+export type FailureClass = 'revert' | 'nonce' | 'insufficient_funds' | 'rpc_timeout' | 'unknown';
+
+export type DeadLetter = {
+  id: number;
+  queue_id: number | null;
+  deployment: string;
+  player_address: string;
+  game_id: string;
+  type: string;
+  height: number | null;
+  score: number;
+  username: string | null;
+  retries: number;
+  hash: string | null;
+  error_class: FailureClass;
+  last_error: string | null;
+  dead_at: Date;
+  edited_at: Date | null;
+  replayed_at: Date | null;
+  replay_count: number;
+};
+
+export type DeadLetterFilter = {
+  errorClass?: FailureClass;
+  type?: string;
+  includeReplayed?: boolean;
+  limit?: number;
+};
+
+// Fields an operator may change before replaying
+export type DeadLetterEdit = {
+  score?: number;
+  height?: number;
+  username?: string;
+};
+
+// viem error names per class, checked along the error's cause chain
+const ERROR_NAMES: Array<[FailureClass, string[]]> = [
+  ['insufficient_funds', ['InsufficientFundsError']],
+  ['nonce', ['NonceTooLowError', 'NonceTooHighError', 'NonceMaxValueError']],
+  ['revert', ['ContractFunctionRevertedError', 'ExecutionRevertedError']],
+  ['rpc_timeout', ['TimeoutError', 'HttpRequestError', 'WebSocketRequestError', 'AbortError']]
+];
+
+// Fallback for errors that arrive as plain text (node messages, stored errors)
+const ERROR_PATTERNS: Array<[FailureClass, RegExp]> = [
+  ['insufficient_funds', /insufficient funds/i],
+  ['nonce', /nonce (too low|too high|has already been used)|NONCE_TOO_SMALL|replacement transaction underpriced|already known/i],
+  ['revert', /revert/i],
+  ['rpc_timeout', /timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|socket hang up|fetch failed|HTTP request failed/i]
+];
+
+/**
+ * Sort a send failure into the class operators triage by
+ */
+export function classifyFailure(error: unknown): FailureClass {
+  const names = new Set<string>();
+  let current: any = error;
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (current.name) names.add(current.name);
+    current = current.cause;
+  }
+
+  for (const [failureClass, classNames] of ERROR_NAMES) {
+    if (classNames.some(name => names.has(name))) return failureClass;
+  }
+
+  const text = describeFailure(error);
+  for (const [failureClass, pattern] of ERROR_PATTERNS) {
+    if (pattern.test(text)) return failureClass;
+  }
+  return 'unknown';
+}
+
+/**
+ * Error text worth storing: viem's short message plus details, trimmed
+ */
+export function describeFailure(error: unknown): string {
+  if (error instanceof Error) {
+    const viemError = error as Error & { shortMessage?: string; details?: string };
+    const text = viemError.shortMessage
+      ? [viemError.shortMessage, viemError.details].filter(Boolean).join(': ')
+      : error.message;
+    return text.slice(0, MAX_ERROR_LENGTH);
+  }
+  return String(error).slice(0, MAX_ERROR_LENGTH);
+}
+
+/**
+ * Mark a queue row failed, recording why
+ */
+export async function markFailed(client: PoolClient | Pool, txId: number, error: unknown) {
+  await client.query(
+    `UPDATE dino_transaction_queue
+     SET status = 'failed', retries = retries + 1, last_error = $2, error_class = $3,
+         lease_owner = NULL, lease_expires_at = NULL
+     WHERE id = $1`,
+    [txId, describeFailure(error), classifyFailure(error)]
+  );
+}
+
+/**
+ * Failed rows that are out of retries, too old, or keep reverting are moved to
+ * dino_dead_letters, where operators can inspect, edit and replay them. Their
+ * queue rows are marked 'dead' so nothing retries them meanwhile.
+ */
+export class DeadLetterQueue {
+  private pool: Pool;
+  private logger: Logger;
+
+  constructor(pool: Pool, logger: Logger) {
+    this.pool = pool;
+    this.logger = logger;
+  }
+
+  /**
+   * Move exhausted failures to the dead-letter table
+   * @returns The number of rows moved
+   */
+  async collect(maxRetries: number, ageLimitHours: number): Promise<number> {
+    const ageThreshold = Date.now() - ageLimitHours * 60 * 60 * 1000;
+    const result = await this.pool.query(
+      `WITH dead AS (
+         UPDATE dino_transaction_queue
+         SET status = 'dead', lease_owner = NULL, lease_expires_at = NULL
+         WHERE status = 'failed'
+           AND (retries >= $1 OR timestamp <= $2 OR (error_class = 'revert' AND retries >= $3))
+         RETURNING *
+       )
+       INSERT INTO dino_dead_letters
+         (queue_id, deployment, player_address, game_id, type, height, score, username, retries, wallet_index, hash, error_class, last_error)
+       SELECT id, deployment, player_address, game_id, type, height, score, username, retries, wallet_index, hash,
+              COALESCE(error_class, 'unknown'), last_error
+       FROM dead`,
+      [maxRetries, ageThreshold, DEAD_LETTER_REVERT_RETRIES]
+    );
+
+    const moved = result.rowCount || 0;
+    if (moved > 0) {
+      this.logger.warn(`Moved ${moved} exhausted transactions to the dead-letter queue`);
+    }
+    return moved;
+  }
+
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM dino_dead_letters
+       WHERE ($1::text IS NULL OR error_class = $1)
+         AND ($2::text IS NULL OR type = $2)
+         AND ($3 OR replayed_at IS NULL)
+       ORDER BY dead_at DESC
+       LIMIT $4`,
+      [filter.errorClass ?? null, filter.type ?? null, filter.includeReplayed ?? false, filter.limit ?? 50]
+    );
+    return result.rows;
+  }
+
+  async get(id: number): Promise<DeadLetter | null> {
+    const result = await this.pool.query('SELECT * FROM dino_dead_letters WHERE id = $1', [id]);
+    return result.rows[0] ?? null;
+  }
+
+  async edit(id: number, changes: DeadLetterEdit): Promise<DeadLetter> {
+    const result = await this.pool.query(
+      `UPDATE dino_dead_letters
+       SET score = COALESCE($2, score), height = COALESCE($3, height), username = COALESCE($4, username), edited_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, changes.score ?? null, changes.height ?? null, changes.username ?? null]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`No dead letter ${id}`);
+    }
+    this.logger.info(`Edited dead letter ${id}: ${JSON.stringify(changes)}`);
+    return result.rows[0];
+  }
+
+  /**
+   * Send dead letters again with their (possibly edited) payload. The original
+   * queue row is reused while it still exists; otherwise a new one is queued.
+   * @returns The queue row id per replayed dead letter
+   */
+  async replay(ids: number[]): Promise<Map<number, number>> {
+    const replayed = new Map<number, number>();
+    const client = await this.pool.connect();
+
+    try {
+      for (const id of ids) {
+        await client.query('BEGIN');
+        try {
+          const letter = (await client.query('SELECT * FROM dino_dead_letters WHERE id = $1 FOR UPDATE', [id])).rows[0];
+          if (!letter) {
+            throw new Error(`No dead letter ${id}`);
+          }
+
+          // Fresh timestamps keep the hourly cleanup from failing the row again straight away.
+          // The last hash stays so the sender can check it didn't land before sending again.
+          let queueId: number | null = null;
+          if (letter.queue_id !== null) {
+            const reused = await client.query(
+              `UPDATE dino_transaction_queue
+               SET status = 'pending', retries = 0, score = $2, height = $3, username = $4, timestamp = $5,
+                   block_number = NULL, block_hash = NULL, last_error = NULL, error_class = NULL
+               WHERE id = $1 AND status = 'dead'
+               RETURNING id`,
+              [letter.queue_id, letter.score, letter.height, letter.username, Date.now()]
+            );
+            queueId = reused.rows[0]?.id ?? null;
+          }
+
+          if (queueId === null) {
+            const inserted = await client.query(
+              `INSERT INTO dino_transaction_queue
+               (player_address, game_id, type, height, score, username, timestamp, status, priority, hash, deployment)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', $8, $9, $10)
+               ON CONFLICT DO NOTHING
+               RETURNING id`,
+              [letter.player_address, letter.game_id, letter.type, letter.height, letter.score, letter.username,
+               Date.now(), getTransactionPriority(letter.type), letter.hash, letter.deployment]
+            );
+            if (inserted.rows.length === 0) {
+              throw new Error(`Game ${letter.game_id} already has a game over queued`);
+            }
+            queueId = inserted.rows[0].id as number;
+          }
+
+          await client.query(
+            `UPDATE dino_dead_letters
+             SET queue_id = $2, replayed_at = NOW(), replay_count = replay_count + 1
+             WHERE id = $1`,
+            [id, queueId]
+          );
+          await client.query('COMMIT');
+
+          replayed.set(id, queueId);
+          this.logger.info(`Replayed dead letter ${id} (${letter.type} for ${letter.player_address}) as queue row ${queueId}`);
+        } catch (error) {
+          await client.query('ROLLBACK');
+          throw error;
+        }
+      }
+    } finally {
+      client.release();
+    }
+
+    return replayed;
+  }
+}
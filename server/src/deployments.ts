@@ -0,0 +1,255 @@
+// server/src/deployments.ts
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { Chain, defineChain, isAddress } from 'viem';
+import { SomniaChain } from './chains';
+import { getRpcUrls } from './rpc-transport';
+
+dotenv.config();
+
+// Configurable constants
+const DEPLOYMENTS_FILE = process.env.DEPLOYMENTS_FILE || path.join(process.cwd(), 'deployments.json');
+const FALLBACK_DEPLOYMENT_NAME = 'testnet'; // rows queued before the registry belong here
+
+export type WalletPoolRole = 'relay' | 'recovery';
+
+// deployments.json, see deployments.example.json
+type ChainConfig = {
+  id: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];         // ${VAR} is replaced from the environment; a value may hold several comma-separated URLs
+  explorer?: { name: string; url: string };
+};
+
+type DeploymentConfig = {
+  name: string;
+  chain: string;             // key in chains
+  contractAddress: string;   // may be ${VAR}
+  walletPools?: Partial<Record<WalletPoolRole, string>>; // dino_wallet_pool names, default relay and recovery
+  acceptsNewGames?: boolean; // false drains a deployment: queued games finish, new ones go elsewhere
+  startBlock?: number;       // where the event indexer starts
+};
+
+type RegistryConfig = {
+  chains: Record<string, ChainConfig>;
+  deployments: DeploymentConfig[];
+  defaultDeployment?: string;
+};
+
+export type Deployment = {
+  name: string;
+  chain: Chain;              // its default RPC URLs are the endpoints to route over
+  contractAddress: `0x${string}`;
+  walletPools: Record<WalletPoolRole, string>;
+  acceptsNewGames: boolean;
+  startBlock: bigint | null;
+};
+
+/**
+ * The chains and DinoRunner deployments the servers send to. Every game is
+ * bound to one deployment when it starts and its transactions go to that
+ * deployment's contract, with its chain, RPC endpoints and wallet pools, so
+ * testnet and mainnet can run side by side and a new contract can take new
+ * games while the old one drains.
+ */
+export class DeploymentRegistry {
+  readonly deployments: Deployment[];
+  readonly defaultDeployment: Deployment;
+  private byName: Map<string, Deployment>;
+
+  constructor(deployments: Deployment[], defaultName: string) {
+    this.deployments = deployments;
+    this.byName = new Map(deployments.map(deployment => [deployment.name, deployment]));
+
+    const defaultDeployment = this.byName.get(defaultName);
+    if (!defaultDeployment) {
+      throw new Error(`Default deployment ${defaultName} is not configured`);
+    }
+    if (!defaultDeployment.acceptsNewGames) {
+      throw new Error(`Default deployment ${defaultName} must accept new games`);
+    }
+    this.defaultDeployment = defaultDeployment;
+  }
+
+  find(name: string): Deployment | undefined {
+    return this.byName.get(name);
+  }
+
+  get(name: string): Deployment {
+    const deployment = this.byName.get(name);
+    if (!deployment) {
+      throw new Error(`Unknown deployment ${name}; configured: ${this.names().join(', ')}`);
+    }
+    return deployment;
+  }
+
+  names(): string[] {
+    return this.deployments.map(deployment => deployment.name);
+  }
+
+  /**
+   * The deployment a new game goes to: the requested one if it takes new
+   * games, otherwise the default
+   */
+  forNewGame(requested?: string): Deployment {
+    const deployment = requested ? this.byName.get(requested) : undefined;
+    return deployment && deployment.acceptsNewGames ? deployment : this.defaultDeployment;
+  }
+
+  chainIds(): number[] {
+    return Array.from(new Set(this.deployments.map(deployment => deployment.chain.id)));
+  }
+
+  /**
+   * Which signer configuration a wallet pool uses. Pools named in the
+   * registry take their slot's role; relay and recovery are always known.
+   */
+  poolRole(poolName: string): WalletPoolRole | null {
+    for (const deployment of this.deployments) {
+      for (const role of ['relay', 'recovery'] as WalletPoolRole[]) {
+        if (deployment.walletPools[role] === poolName) return role;
+      }
+    }
+    return poolName === 'relay' || poolName === 'recovery' ? poolName : null;
+  }
+}
+
+// Replace ${VAR} with its environment value
+function substituteEnv(value: string, where: string): string {
+  return value.replace(/\$\{([A-Za-z0-9_]+)\}/g, (_, name: string) => {
+    const substitute = process.env[name];
+    if (substitute === undefined || substitute === '') {
+      throw new Error(`${where} refers to ${name}, which is not set`);
+    }
+    return substitute;
+  });
+}
+
+function buildChain(key: string, config: ChainConfig): Chain {
+  if (!Number.isInteger(config.id) || config.id <= 0) {
+    throw new Error(`Chain ${key} needs a numeric id`);
+  }
+  if (!config.nativeCurrency?.symbol) {
+    throw new Error(`Chain ${key} needs a nativeCurrency`);
+  }
+
+  const rpcUrls = Array.from(new Set(
+    (config.rpcUrls || [])
+      .flatMap(url => substituteEnv(url, `Chain ${key}`).split(','))
+      .map(url => url.trim())
+      .filter(url => url.length > 0)
+  ));
+  if (rpcUrls.length === 0) {
+    throw new Error(`Chain ${key} needs at least one RPC URL`);
+  }
+
+  return defineChain({
+    id: config.id,
+    name: config.name || key,
+    nativeCurrency: {
+      name: config.nativeCurrency.name || config.nativeCurrency.symbol,
+      symbol: config.nativeCurrency.symbol,
+      decimals: config.nativeCurrency.decimals ?? 18
+    },
+    rpcUrls: { default: { http: rpcUrls } },
+    ...(config.explorer ? { blockExplorers: { default: config.explorer } } : {})
+  });
+}
+
+function parseRegistry(config: RegistryConfig, source: string): DeploymentRegistry {
+  if (!config.chains || !Array.isArray(config.deployments) || config.deployments.length === 0) {
+    throw new Error(`${source} needs chains and at least one deployment`);
+  }
+
+  const chains = new Map(Object.entries(config.chains).map(([key, chainConfig]) => [key, buildChain(key, chainConfig)]));
+  const deployments: Deployment[] = [];
+  const contracts = new Set<string>();
+
+  for (const entry of config.deployments) {
+    if (!entry.name || !/^[a-z0-9-]{1,50}$/.test(entry.name)) {
+      throw new Error(`Deployment name ${entry.name} must be 1-50 lowercase letters, digits or dashes`);
+    }
+    if (deployments.some(deployment => deployment.name === entry.name)) {
+      throw new Error(`Deployment ${entry.name} is configured twice`);
+    }
+
+    const chain = chains.get(entry.chain);
+    if (!chain) {
+      throw new Error(`Deployment ${entry.name} uses unknown chain ${entry.chain}`);
+    }
+
+    const contractAddress = substituteEnv(entry.contractAddress || '', `Deployment ${entry.name}`);
+    if (!isAddress(contractAddress)) {
+      throw new Error(`Deployment ${entry.name} has an invalid contract address ${contractAddress}`);
+    }
+    const contractKey = `${chain.id}:${contractAddress.toLowerCase()}`;
+    if (contracts.has(contractKey)) {
+      throw new Error(`Deployment ${entry.name} repeats contract ${contractAddress} on chain ${chain.id}`);
+    }
+    contracts.add(contractKey);
+
+    deployments.push({
+      name: entry.name,
+      chain,
+      contractAddress,
+      walletPools: {
+        relay: entry.walletPools?.relay || 'relay',
+        recovery: entry.walletPools?.recovery || 'recovery'
+      },
+      acceptsNewGames: entry.acceptsNewGames ?? true,
+      startBlock: entry.startBlock !== undefined ? BigInt(entry.startBlock) : null
+    });
+  }
+
+  for (const deployment of deployments) {
+    for (const poolName of Object.values(deployment.walletPools)) {
+      if (poolName.length > 50) {
+        throw new Error(`Wallet pool name ${poolName} is longer than 50 characters`);
+      }
+    }
+    if (deployment.walletPools.relay === deployment.walletPools.recovery) {
+      throw new Error(`Deployment ${deployment.name} uses ${deployment.walletPools.relay} for both relay and recovery`);
+    }
+  }
+
+  return new DeploymentRegistry(deployments, config.defaultDeployment || deployments[0].name);
+}
+
+/**
+ * The single deployment configured the old way, with CONTRACT_ADDRESS and
+ * RPC_URLS on the Somnia testnet
+ */
+function registryFromEnv(): DeploymentRegistry {
+  const contractAddress = process.env.CONTRACT_ADDRESS || '';
+  if (!isAddress(contractAddress)) {
+    throw new Error(`No ${DEPLOYMENTS_FILE}, and CONTRACT_ADDRESS is not a valid address`);
+  }
+
+  return new DeploymentRegistry([{
+    name: FALLBACK_DEPLOYMENT_NAME,
+    chain: defineChain({ ...SomniaChain, rpcUrls: { default: { http: getRpcUrls() } } }),
+    contractAddress,
+    walletPools: { relay: 'relay', recovery: 'recovery' },
+    acceptsNewGames: true,
+    startBlock: null
+  }], FALLBACK_DEPLOYMENT_NAME);
+}
+
+/**
+ * Load DEPLOYMENTS_FILE, or fall back to the environment when it doesn't exist
+ */
+export function loadDeployments(file: string = DEPLOYMENTS_FILE): DeploymentRegistry {
+  if (!fs.existsSync(file)) {
+    return registryFromEnv();
+  }
+
+  let config: RegistryConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseRegistry(config, file);
+}
@@ -0,0 +1,198 @@
+// server/src/dino-runner-contract.ts
+import {
+  ContractEventName,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionReturnType,
+  DecodeEventLogReturnType,
+  Hash,
+  Hex,
+  Log,
+  decodeEventLog
+} from 'viem';
+import { DinoRunnerABI } from './abi';
+import { TransactionFees } from './fee-strategy';
+
+type DinoRunnerAbi = typeof DinoRunnerABI;
+type ReadFunction = ContractFunctionName<DinoRunnerAbi, 'pure' | 'view'>;
+type WriteFunction = ContractFunctionName<DinoRunnerAbi, 'nonpayable' | 'payable'>;
+
+type Address = `0x${string}`;
+type Uint = bigint | number; // uint256 inputs; queue rows hold plain numbers
+
+export type PlayerStats = ContractFunctionReturnType<DinoRunnerAbi, 'view', 'getPlayerStats'>;
+export type LeaderboardEntry = ContractFunctionReturnType<DinoRunnerAbi, 'view', 'getLeaderboard'>[number];
+export type GlobalStats = ContractFunctionReturnType<DinoRunnerAbi, 'view', 'getGlobalStats'>; // [totalJumps, totalGames, totalPlayers]
+
+export type DinoRunnerEventName = ContractEventName<DinoRunnerAbi>;
+
+// A decoded event: its name and arguments, typed from the ABI
+export type DinoRunnerEvent<N extends DinoRunnerEventName = DinoRunnerEventName> =
+  DecodeEventLogReturnType<DinoRunnerAbi, N, [Hex, ...Hex[]], Hex, true>;
+
+// A log fetched with getEvents: the decoded event plus its block and transaction
+export type DinoRunnerEventLog<N extends DinoRunnerEventName = DinoRunnerEventName> =
+  Log<bigint, number, false, undefined, true, DinoRunnerAbi, N>;
+
+// The wallet, nonce and fees to send a write with
+export type SendOptions = {
+  walletClient: any;
+  nonce: bigint;
+  fees: TransactionFees;
+};
+
+/**
+ * A typed client for one DinoRunner deployment. Every contract function has
+ * a method whose arguments and result come from the ABI in abi.ts, so a
+ * change to the contract breaks the build instead of a transaction. Writes
+ * are simulated with the sending wallet's nonce and fees before they go out.
+ */
+export class DinoRunnerContract {
+  readonly address: Address;
+  private publicClient: any;
+
+  constructor(publicClient: any, address: Address) {
+    this.publicClient = publicClient;
+    this.address = address;
+  }
+
+  // Reads
+
+  getPlayerStats(player: Address): Promise<PlayerStats> {
+    return this.read('getPlayerStats', [player]);
+  }
+
+  getLeaderboard(): Promise<readonly LeaderboardEntry[]> {
+    return this.read('getLeaderboard', []);
+  }
+
+  getGlobalStats(): Promise<GlobalStats> {
+    return this.read('getGlobalStats', []);
+  }
+
+  totalGames(): Promise<bigint> {
+    return this.read('totalGames', []);
+  }
+
+  totalJumps(): Promise<bigint> {
+    return this.read('totalJumps', []);
+  }
+
+  primaryOwner(): Promise<Address> {
+    return this.read('primaryOwner', []);
+  }
+
+  isOwner(account: Address): Promise<boolean> {
+    return this.read('isOwner', [account]);
+  }
+
+  authorizedRecorders(recorder: Address): Promise<boolean> {
+    return this.read('authorizedRecorders', [recorder]);
+  }
+
+  // Game records
+
+  recordJump(player: Address, height: Uint, score: Uint, gameId: string, send: SendOptions): Promise<Hash> {
+    return this.write('recordJump', [player, BigInt(height), BigInt(score), gameId], send);
+  }
+
+  recordGameOver(player: Address, finalScore: Uint, gameId: string, send: SendOptions): Promise<Hash> {
+    return this.write('recordGameOver', [player, BigInt(finalScore), gameId], send);
+  }
+
+  setPlayer(player: Address, name: string, send: SendOptions): Promise<Hash> {
+    return this.write('setPlayer', [player, name], send);
+  }
+
+  // Administration
+
+  addAuthorizedRecorder(recorder: Address, send: SendOptions): Promise<Hash> {
+    return this.write('addAuthorizedRecorder', [recorder], send);
+  }
+
+  removeAuthorizedRecorder(recorder: Address, send: SendOptions): Promise<Hash> {
+    return this.write('removeAuthorizedRecorder', [recorder], send);
+  }
+
+  addOwner(newOwner: Address, send: SendOptions): Promise<Hash> {
+    return this.write('addOwner', [newOwner], send);
+  }
+
+  removeOwner(ownerToRemove: Address, send: SendOptions): Promise<Hash> {
+    return this.write('removeOwner', [ownerToRemove], send);
+  }
+
+  transferPrimaryOwnership(newPrimaryOwner: Address, send: SendOptions): Promise<Hash> {
+    return this.write('transferPrimaryOwnership', [newPrimaryOwner], send);
+  }
+
+  // Events
+
+  /**
+   * Fetch and decode the named events emitted in a block range
+   */
+  async getEvents<N extends DinoRunnerEventName>(
+    eventNames: readonly N[],
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<DinoRunnerEventLog<N>[]> {
+    return this.publicClient.getLogs({
+      address: this.address,
+      events: DinoRunnerABI.filter(item => item.type === 'event' && (eventNames as readonly string[]).includes(item.name)),
+      fromBlock,
+      toBlock,
+      strict: true
+    });
+  }
+
+  /**
+   * Decode a log from a receipt, or null when it isn't a DinoRunner event
+   * of this deployment
+   */
+  decodeEvent(log: { address: Address; data: Hex; topics: readonly Hex[] }): DinoRunnerEvent | null {
+    if (log.address.toLowerCase() !== this.address.toLowerCase() || log.topics.length === 0) {
+      return null;
+    }
+    try {
+      return decodeEventLog({
+        abi: DinoRunnerABI,
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+        strict: true
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  private read<F extends ReadFunction>(
+    functionName: F,
+    args: ContractFunctionArgs<DinoRunnerAbi, 'pure' | 'view', F>
+  ): Promise<ContractFunctionReturnType<DinoRunnerAbi, 'pure' | 'view', F>> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: DinoRunnerABI,
+      functionName,
+      args
+    });
+  }
+
+  private async write<F extends WriteFunction>(
+    functionName: F,
+    args: ContractFunctionArgs<DinoRunnerAbi, 'nonpayable' | 'payable', F>,
+    send: SendOptions
+  ): Promise<Hash> {
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi: DinoRunnerABI,
+      functionName,
+      args,
+      account: send.walletClient.account,
+      nonce: send.nonce,
+      maxFeePerGas: send.fees.maxFeePerGas,
+      maxPriorityFeePerGas: send.fees.maxPriorityFeePerGas
+    });
+
+    return send.walletClient.writeContract(request);
+  }
+}
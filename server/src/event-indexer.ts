@@ -0,0 +1,247 @@
+// server/src/event-indexer.ts
+import dotenv from 'dotenv';
+import { Pool, PoolClient } from 'pg';
+import { createPublicClient } from 'viem';
+import { Logger } from 'winston';
+import { Deployment } from './deployments';
+import { DinoRunnerContract, DinoRunnerEvent, DinoRunnerEventLog } from './dino-runner-contract';
+import { RpcRouter } from './rpc-transport';
+
+dotenv.config();
+
+// Configurable constants
+const INDEXER_START_BLOCK = process.env.INDEXER_START_BLOCK; // first block to backfill from when the deployment sets none; the current head if unset
+const INDEXER_POLL_INTERVAL = parseInt(process.env.INDEXER_POLL_INTERVAL || '2000'); // ms between head checks once caught up
+const INDEXER_BLOCK_RANGE = parseInt(process.env.INDEXER_BLOCK_RANGE || '1000'); // blocks per getLogs request
+const INDEXER_LAG = parseInt(process.env.INDEXER_LAG || '3'); // stay this many blocks behind the head so reorgs settle first
+
+const INDEXER_NAME = 'dino-runner';
+
+type IndexedEvent = 'JumpRecorded' | 'GameOverRecorded' | 'HighScoreAchieved' | 'PlayerRegistered';
+
+// Indexed events, the table each goes to and how its args map to columns
+const EVENT_TABLES: { [N in IndexedEvent]: { table: string; columns: (args: DinoRunnerEvent<N>['args']) => Record<string, unknown> } } = {
+  JumpRecorded: {
+    table: 'dino_event_jumps',
+    columns: args => ({
+      player_address: args.player.toLowerCase(),
+      player_name: args.name,
+      height: args.height.toString(),
+      score: args.score.toString(),
+      event_timestamp: args.timestamp.toString(),
+      game_id: args.gameId
+    })
+  },
+  GameOverRecorded: {
+    table: 'dino_event_game_overs',
+    columns: args => ({
+      player_address: args.player.toLowerCase(),
+      player_name: args.name,
+      final_score: args.finalScore.toString(),
+      event_timestamp: args.timestamp.toString(),
+      game_id: args.gameId
+    })
+  },
+  HighScoreAchieved: {
+    table: 'dino_event_high_scores',
+    columns: args => ({
+      player_address: args.player.toLowerCase(),
+      player_name: args.name,
+      score: args.score.toString(),
+      event_timestamp: args.timestamp.toString(),
+      game_id: args.gameId
+    })
+  },
+  PlayerRegistered: {
+    table: 'dino_event_player_registrations',
+    columns: args => ({
+      player_address: args.player.toLowerCase(),
+      player_name: args.name
+    })
+  }
+};
+
+/**
+ * Indexes one deployment's DinoRunner events into Postgres. On first run it
+ * backfills from the deployment's startBlock (or INDEXER_START_BLOCK), then
+ * follows the chain INDEXER_LAG blocks behind the head. Each block range is
+ * written in one transaction together with the checkpoint in
+ * dino_indexer_checkpoints, so a restart resumes after the last stored range.
+ * Events are linked to their deployment's dino_transaction_queue row by hash.
+ */
+export class EventIndexer {
+  private pool: Pool;
+  private logger: Logger;
+  private publicClient: any;
+  private deployment: Deployment;
+  private contractAddress: `0x${string}`;
+  private contract: DinoRunnerContract;
+  private events = Object.keys(EVENT_TABLES) as IndexedEvent[];
+  private pollTimer: NodeJS.Timeout | null = null;
+  private active: boolean = false;
+  private blockRange: number = INDEXER_BLOCK_RANGE;
+
+  constructor(pool: Pool, logger: Logger, rpcRouter: RpcRouter, deployment: Deployment) {
+    this.pool = pool;
+    this.logger = logger;
+    this.deployment = deployment;
+    this.contractAddress = deployment.contractAddress;
+    this.publicClient = createPublicClient({
+      chain: rpcRouter.chain,
+      transport: rpcRouter.createTransport()
+    });
+    this.contract = new DinoRunnerContract(this.publicClient, this.contractAddress);
+  }
+
+  start() {
+    this.stop();
+    this.active = true;
+    this.schedule(0);
+    this.logger.info(`Event indexer started for ${this.deployment.name} at ${this.contractAddress} (${this.events.join(', ')})`);
+  }
+
+  stop() {
+    this.active = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private schedule(delay: number) {
+    this.pollTimer = setTimeout(async () => {
+      let caughtUp = true;
+      try {
+        caughtUp = await this.indexNextRange();
+      } catch (error) {
+        this.logger.error('Error in event indexer:', error);
+      }
+      if (this.active) {
+        // Keep going without a pause while backfilling
+        this.schedule(caughtUp ? INDEXER_POLL_INTERVAL : 0);
+      }
+    }, delay);
+  }
+
+  /**
+   * Index the next block range up to the lagged head
+   * @returns Whether the indexer has caught up
+   */
+  private async indexNextRange(): Promise<boolean> {
+    const head = BigInt(await this.publicClient.getBlockNumber());
+    const target = head - BigInt(INDEXER_LAG);
+    const fromBlock = (await this.getCheckpoint(target)) + BigInt(1);
+
+    if (fromBlock > target) return true;
+
+    const toBlock = fromBlock + BigInt(this.blockRange - 1) < target ? fromBlock + BigInt(this.blockRange - 1) : target;
+
+    let logs: DinoRunnerEventLog<IndexedEvent>[];
+    try {
+      logs = await this.contract.getEvents(this.events, fromBlock, toBlock);
+    } catch (error) {
+      // Nodes cap log ranges; shrink and try again on the next pass
+      if (this.blockRange > 1) {
+        this.blockRange = Math.max(1, Math.floor(this.blockRange / 2));
+        this.logger.warn(`getLogs failed for blocks ${fromBlock}-${toBlock}, reducing range to ${this.blockRange}`);
+        return false;
+      }
+      throw error;
+    }
+
+    await this.store(logs, toBlock);
+
+    if (logs.length > 0) {
+      this.logger.info(`Indexed ${logs.length} events from blocks ${fromBlock}-${toBlock}`);
+    }
+    return toBlock >= target;
+  }
+
+  /**
+   * Last indexed block, creating the checkpoint on first run
+   */
+  private async getCheckpoint(target: bigint): Promise<bigint> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT last_block FROM dino_indexer_checkpoints WHERE name = $1 AND chain_id = $2 AND contract_address = $3',
+        [INDEXER_NAME, this.deployment.chain.id, this.contractAddress.toLowerCase()]
+      );
+      if (result.rows.length > 0) {
+        return BigInt(result.rows[0].last_block);
+      }
+
+      let start = target;
+      if (this.deployment.startBlock !== null) {
+        start = this.deployment.startBlock;
+      } else if (INDEXER_START_BLOCK) {
+        start = BigInt(INDEXER_START_BLOCK);
+      } else {
+        this.logger.warn(`No start block for ${this.deployment.name}, indexing events from the current head without a backfill`);
+      }
+
+      await client.query(
+        `INSERT INTO dino_indexer_checkpoints (name, chain_id, contract_address, last_block)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (name, chain_id, contract_address) DO NOTHING`,
+        [INDEXER_NAME, this.deployment.chain.id, this.contractAddress.toLowerCase(), (start - BigInt(1)).toString()]
+      );
+      return start - BigInt(1);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Write a range's events and move the checkpoint past it in one transaction
+   */
+  private async store(logs: DinoRunnerEventLog<IndexedEvent>[], toBlock: bigint) {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const log of logs) {
+        await this.insertEvent(client, log);
+      }
+
+      await client.query(
+        `UPDATE dino_indexer_checkpoints SET last_block = $4, updated_at = NOW()
+         WHERE name = $1 AND chain_id = $2 AND contract_address = $3`,
+        [INDEXER_NAME, this.deployment.chain.id, this.contractAddress.toLowerCase(), toBlock.toString()]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async insertEvent(client: PoolClient, log: DinoRunnerEventLog<IndexedEvent>) {
+    const mapping = EVENT_TABLES[log.eventName] as { table: string; columns: (args: typeof log.args) => Record<string, unknown> };
+
+    const columns: Record<string, unknown> = {
+      block_number: log.blockNumber.toString(),
+      block_hash: log.blockHash,
+      tx_hash: log.transactionHash,
+      log_index: log.logIndex,
+      deployment: this.deployment.name,
+      ...mapping.columns(log.args)
+    };
+    const names = Object.keys(columns);
+    const values = Object.values(columns);
+
+    // Re-indexing a range is harmless: (tx_hash, log_index) is unique
+    await client.query(
+      `INSERT INTO ${mapping.table} (${names.join(', ')}, queue_id)
+       VALUES (${names.map((_, i) => `$${i + 1}`).join(', ')},
+         (SELECT id FROM dino_transaction_queue
+          WHERE hash = $${names.indexOf('tx_hash') + 1} AND deployment = $${names.indexOf('deployment') + 1}
+          ORDER BY id DESC LIMIT 1))
+       ON CONFLICT (tx_hash, log_index) DO NOTHING`,
+      values
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// server/src/fee-strategy.ts
+import dotenv from 'dotenv';
+import { formatGwei, parseGwei } from 'viem';
+import { Logger } from 'winston';
+
+dotenv.config();
+
+// Configurable constants
+const FEE_BASE_MULTIPLIER = parseFloat(process.env.FEE_BASE_MULTIPLIER || '2'); // headroom for base fee rises
+const FEE_PRIORITY_MULTIPLIER = parseFloat(process.env.FEE_PRIORITY_MULTIPLIER || '1');
+const FEE_MAX_FEE_GWEI = process.env.FEE_MAX_FEE_GWEI || '50'; // hard ceiling on maxFeePerGas
+const FEE_MAX_PRIORITY_FEE_GWEI = process.env.FEE_MAX_PRIORITY_FEE_GWEI || '5'; // hard ceiling on the tip
+const FEE_PAUSE_BASE_FEE_GWEI = process.env.FEE_PAUSE_BASE_FEE_GWEI || '20'; // pause throttled types above this
+const FEE_RESUME_BASE_FEE_GWEI = process.env.FEE_RESUME_BASE_FEE_GWEI || '15'; // and resume below this
+const FEE_CACHE_MS = parseInt(process.env.FEE_CACHE_MS || '5000');
+
+// Transaction types held back while fees spike
+export const FEE_THROTTLED_TYPES = ['jump'];
+
+// Multipliers are applied in integer math at this precision
+const MULTIPLIER_PRECISION = 1000;
+
+export type TransactionFees = {
+  baseFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+/**
+ * EIP-1559 fees for relayed transactions. Fees come from the latest block's base
+ * fee and the node's suggested tip, scaled by configurable multipliers and
+ * clamped to hard ceilings. While the base fee is above the pause threshold,
+ * throttled types (jumps) are not submitted; they resume once it drops below
+ * the resume threshold.
+ */
+export class FeeStrategy {
+  private publicClient: any;
+  private logger: Logger;
+  private cachedFees: TransactionFees | null = null;
+  private cachedAt: number = 0;
+  private paused: boolean = false;
+
+  constructor(publicClient: any, logger: Logger) {
+    this.publicClient = publicClient;
+    this.logger = logger;
+  }
+
+  /**
+   * Fees to send with, refreshed at most every FEE_CACHE_MS
+   */
+  async getFees(): Promise<TransactionFees> {
+    if (this.cachedFees && Date.now() - this.cachedAt < FEE_CACHE_MS) {
+      return this.cachedFees;
+    }
+
+    const block = await this.publicClient.getBlock({ blockTag: 'latest' });
+    let baseFeePerGas: bigint;
+    let suggestedPriorityFee: bigint;
+
+    if (block.baseFeePerGas !== null && block.baseFeePerGas !== undefined) {
+      baseFeePerGas = BigInt(block.baseFeePerGas);
+      suggestedPriorityFee = BigInt(await this.publicClient.estimateMaxPriorityFeePerGas());
+    } else {
+      // Chain without a base fee: treat the gas price as the base and tip nothing
+      baseFeePerGas = BigInt(await this.publicClient.getGasPrice());
+      suggestedPriorityFee = BigInt(0);
+    }
+
+    const maxPriorityFeePerGas = min(scale(suggestedPriorityFee, FEE_PRIORITY_MULTIPLIER), parseGwei(FEE_MAX_PRIORITY_FEE_GWEI));
+    const ceiling = parseGwei(FEE_MAX_FEE_GWEI);
+    const maxFeePerGas = min(scale(baseFeePerGas, FEE_BASE_MULTIPLIER) + maxPriorityFeePerGas, ceiling);
+
+    if (baseFeePerGas + maxPriorityFeePerGas > ceiling) {
+      this.logger.warn(`Base fee ${formatGwei(baseFeePerGas)} gwei is at the ${FEE_MAX_FEE_GWEI} gwei fee ceiling; transactions may wait`);
+    }
+
+    this.updatePause(baseFeePerGas);
+
+    this.cachedFees = {
+      baseFeePerGas,
+      maxFeePerGas: maxFeePerGas > maxPriorityFeePerGas ? maxFeePerGas : maxPriorityFeePerGas,
+      maxPriorityFeePerGas
+    };
+    this.cachedAt = Date.now();
+    return this.cachedFees;
+  }
+
+  private updatePause(baseFeePerGas: bigint) {
+    if (!this.paused && baseFeePerGas > parseGwei(FEE_PAUSE_BASE_FEE_GWEI)) {
+      this.paused = true;
+      this.logger.warn(`Base fee ${formatGwei(baseFeePerGas)} gwei above ${FEE_PAUSE_BASE_FEE_GWEI} gwei, pausing ${FEE_THROTTLED_TYPES.join(', ')} transactions`);
+    } else if (this.paused && baseFeePerGas < parseGwei(FEE_RESUME_BASE_FEE_GWEI)) {
+      this.paused = false;
+      this.logger.info(`Base fee ${formatGwei(baseFeePerGas)} gwei below ${FEE_RESUME_BASE_FEE_GWEI} gwei, resuming ${FEE_THROTTLED_TYPES.join(', ')} transactions`);
+    }
+  }
+
+  /**
+   * Whether transactions of this type are held back by a fee spike
+   */
+  isPaused(type: string): boolean {
+    return this.paused && FEE_THROTTLED_TYPES.includes(type);
+  }
+
+  /**
+   * Types currently held back, for excluding them when picking rows. Refreshes
+   * fees first so a pause lifts even when nothing else is being sent.
+   */
+  async getPausedTypes(): Promise<string[]> {
+    try {
+      await this.getFees();
+    } catch (error) {
+      this.logger.error('Error refreshing fees, keeping the last pause state:', error);
+    }
+    return this.paused ? [...FEE_THROTTLED_TYPES] : [];
+  }
+}
+
+function scale(value: bigint, multiplier: number): bigint {
+  return value * BigInt(Math.round(multiplier * MULTIPLIER_PRECISION)) / BigInt(MULTIPLIER_PRECISION);
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
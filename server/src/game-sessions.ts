@@ -0,0 +1,184 @@
+// server/src/game-sessions.ts
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { Pool, PoolClient } from 'pg';
+import { Logger } from 'winston';
+import { signToken, verifyToken } from './auth';
+
+dotenv.config();
+
+// Configurable constants
+const GAME_TICKET_TTL_MS = parseInt(process.env.GAME_TICKET_TTL_MS || '3600000'); // 1 hour
+
+export type GameTicket = {
+  gameId: string;
+  deployment: string;
+  ticket: string;
+  seed: string;
+  startedAt: number;
+  expiresAt: number;
+};
+
+export type GameTicketClaims = {
+  gid: string;
+  sub: string;
+  dep?: string; // deployment the game's transactions go to; absent on tickets issued before the registry
+  st: number;
+  exp: number;
+};
+
+export type OpenGame = {
+  gameId: string;
+  seed: string | null;
+  startedAt: number;
+  jumpsCount: number;
+};
+
+/**
+ * Server-authoritative game sessions. The server picks every game ID and hands
+ * the client a signed ticket; jumps and game over are only accepted for an open,
+ * unexpired session in dino_player_sessions matching that ticket. Each game
+ * is bound to a deployment when it starts, and the ticket carries it.
+ */
+export class GameSessionService {
+  private pool: Pool;
+  private logger: Logger;
+
+  constructor(pool: Pool, logger: Logger) {
+    this.pool = pool;
+    this.logger = logger;
+  }
+
+  /**
+   * Generate a new game ID
+   */
+  private createGameId(): string {
+    return `dino-${Date.now()}-${crypto.randomBytes(8).toString('hex')}`;
+  }
+
+  /**
+   * Start a new game for a player, closing any game they left open
+   * @param playerAddress Authenticated player address
+   * @param deployment Deployment the game's transactions go to
+   */
+  async startGame(playerAddress: string, deployment: string): Promise<GameTicket> {
+    const gameId = this.createGameId();
+    // Seeds the client's obstacle generator so the run can be replayed server-side
+    const seed = crypto.randomBytes(16).toString('hex');
+    const startedAt = Date.now();
+    const expiresAt = startedAt + GAME_TICKET_TTL_MS;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      try {
+        // Abandon any game the player left open
+        await client.query(
+          `UPDATE dino_player_sessions
+           SET end_time = NOW(), completed = false
+           WHERE player_address = $1 AND end_time IS NULL`,
+          [playerAddress]
+        );
+
+        await client.query(
+          `INSERT INTO dino_player_sessions (player_address, game_id, run_seed, start_time, ticket_expires_at, deployment)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [playerAddress, gameId, seed, new Date(startedAt), new Date(expiresAt), deployment]
+        );
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    const ticket = signToken({
+      gid: gameId,
+      sub: playerAddress,
+      dep: deployment,
+      st: startedAt,
+      exp: expiresAt
+    });
+
+    return { gameId, deployment, ticket, seed, startedAt, expiresAt };
+  }
+
+  /**
+   * Check a ticket's signature, owner and expiry without touching the database
+   * @returns The ticket claims, or null if the ticket must be rejected
+   */
+  verifyTicket(ticket: unknown, playerAddress: string, gameId?: string): GameTicketClaims | null {
+    const claims = verifyToken<GameTicketClaims>(ticket);
+
+    if (!claims || !claims.gid || !claims.exp) return null;
+    if (claims.sub !== playerAddress) return null;
+    if (gameId && claims.gid !== gameId) return null;
+    if (claims.exp <= Date.now()) return null;
+
+    return claims;
+  }
+
+  /**
+   * Record a jump against an open game
+   * @returns false if the game is closed, expired or not owned by the player
+   */
+  async recordJump(client: PoolClient, claims: GameTicketClaims, height: number): Promise<boolean> {
+    const result = await client.query(
+      `UPDATE dino_player_sessions
+       SET jumps_count = jumps_count + 1, highest_jump = GREATEST(COALESCE(highest_jump, 0), $3)
+       WHERE game_id = $1 AND player_address = $2 AND end_time IS NULL AND ticket_expires_at > NOW()
+       RETURNING id`,
+      [claims.gid, claims.sub, Math.max(0, Math.floor(Number(height) || 0))]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Lock an open game for the rest of the caller's transaction, so two
+   * game overs for the same ticket can't both see it as open.
+   * @returns The open game, or null if the ticket was already used or expired
+   */
+  async lockOpenGame(client: PoolClient, claims: GameTicketClaims): Promise<OpenGame | null> {
+    const result = await client.query(
+      `SELECT run_seed, start_time, jumps_count FROM dino_player_sessions
+       WHERE game_id = $1 AND player_address = $2 AND end_time IS NULL AND ticket_expires_at > NOW()
+       FOR UPDATE`,
+      [claims.gid, claims.sub]
+    );
+
+    if (result.rows.length === 0) {
+      this.logger.warn(`Rejected game over for ${claims.gid}: ticket already used or expired`);
+      return null;
+    }
+
+    return {
+      gameId: claims.gid,
+      seed: result.rows[0].run_seed || null,
+      startedAt: new Date(result.rows[0].start_time).getTime(),
+      jumpsCount: result.rows[0].jumps_count || 0
+    };
+  }
+
+  /**
+   * Close a locked game, consuming its ticket. Only accepted games are marked
+   * completed, which is what feeds the player's profile stats.
+   */
+  async completeGame(
+    client: PoolClient,
+    claims: GameTicketClaims,
+    finalScore: number,
+    distance: number,
+    accepted: boolean = true
+  ): Promise<void> {
+    await client.query(
+      `UPDATE dino_player_sessions
+       SET end_time = NOW(), completed = $5, final_score = $3, distance_traveled = $4
+       WHERE game_id = $1 AND player_address = $2`,
+      [claims.gid, claims.sub, finalScore, Math.floor(Number(distance) || 0), accepted]
+    );
+  }
+}
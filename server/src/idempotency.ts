@@ -0,0 +1,87 @@
+// server/src/idempotency.ts
+import { PoolClient } from 'pg';
+import { Logger } from 'winston';
+
+// Keys are picked by the client, one per jump or game over, and reused on resends
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9:_-]{8,100}$/;
+
+// What became of a transaction sent earlier
+export type PreviousSend = 'landed' | 'pending' | 'reverted' | 'missing';
+
+/**
+ * Deduplicates socket events the client resends after a reconnect. The key is
+ * claimed in the same database transaction that records the event, and the
+ * acknowledgement sent back is stored with it, so a resend is answered with
+ * the original acknowledgement instead of being recorded twice.
+ */
+export class IdempotencyStore {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  isValidKey(key: unknown): key is string {
+    return typeof key === 'string' && IDEMPOTENCY_KEY_PATTERN.test(key);
+  }
+
+  /**
+   * Claim a key inside the caller's transaction. A concurrent claim of the
+   * same key waits here until the first one commits or rolls back.
+   * @returns null if the key is new, otherwise the stored acknowledgement
+   */
+  async claim<T>(client: PoolClient, playerAddress: string, key: string, eventType: string): Promise<T | null> {
+    const inserted = await client.query(
+      `INSERT INTO dino_idempotency_keys (player_address, idempotency_key, event_type)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (player_address, idempotency_key) DO NOTHING
+       RETURNING idempotency_key`,
+      [playerAddress, key, eventType]
+    );
+    if (inserted.rows.length > 0) return null;
+
+    const existing = await client.query(
+      'SELECT event_type, response FROM dino_idempotency_keys WHERE player_address = $1 AND idempotency_key = $2',
+      [playerAddress, key]
+    );
+    const row = existing.rows[0];
+    if (row.event_type !== eventType) {
+      throw new Error(`Idempotency key ${key} was already used for ${row.event_type}`);
+    }
+
+    this.logger.info(`Duplicate ${eventType} from ${playerAddress} (key ${key}), replying with the original result`);
+    return row.response;
+  }
+
+  /**
+   * Store the acknowledgement for a claimed key, before the caller commits
+   */
+  async complete(client: PoolClient, playerAddress: string, key: string, response: object) {
+    await client.query(
+      'UPDATE dino_idempotency_keys SET response = $3 WHERE player_address = $1 AND idempotency_key = $2',
+      [playerAddress, key, JSON.stringify(response)]
+    );
+  }
+}
+
+/**
+ * Check whether a transaction sent earlier made it after all, so a row that
+ * failed or was reset is not sent twice. Only 'reverted' and 'missing' are
+ * safe to send again.
+ */
+export async function checkPreviousSend(publicClient: any, hash: string): Promise<PreviousSend> {
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash: hash as `0x${string}` });
+    return receipt.status === 'success' ? 'landed' : 'reverted';
+  } catch (error: any) {
+    if (error?.name !== 'TransactionReceiptNotFoundError') throw error;
+  }
+
+  try {
+    await publicClient.getTransaction({ hash: hash as `0x${string}` });
+    return 'pending';
+  } catch (error: any) {
+    if (error?.name !== 'TransactionNotFoundError') throw error;
+    return 'missing';
+  }
+}
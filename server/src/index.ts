@@ -3,16 +3,34 @@ import express from 'express';
 import http from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Pool, PoolConfig, PoolClient } from 'pg';
-import { createWalletClient, createPublicClient, http as viemHttp } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { Hash, createWalletClient, createPublicClient, formatEther } from 'viem';
 import dotenv from 'dotenv';
-import { SomniaChain } from './chains';
-import { DinoRunnerABI } from './abi';
+import { Deployment, loadDeployments } from './deployments';
+import { DinoRunnerContract } from './dino-runner-contract';
+import { sendTransaction, validateTransaction } from './transaction-types';
 import { createClient } from 'redis';
 import winston, { Logger } from 'winston';
 import os from 'os';
 import cluster from 'cluster';
 import { initAnalytics, getAnalytics } from './analytics';
+import { AuthService, ensureSessionSecret } from './auth';
+import { GameSessionService, GameTicketClaims } from './game-sessions';
+import { validateGameResult, maxFramesForDuration, ScoreValidation } from './score-validation';
+import { verifyReplay, ReplayLog, ReplayResult } from './replay';
+import { RateLimiter, TEMP_BANNED } from './rate-limit';
+import { SponsorshipPolicy, SponsorshipQuota } from './sponsorship';
+import { QUEUE_ORDER_BY, getTransactionPriority, selectWithinCaps, insertByPriority } from './queue-priority';
+import { QueueLeaseManager } from './queue-lease';
+import { NonceManager, NonceResolution } from './nonce-manager';
+import { FeeStrategy, TransactionFees } from './fee-strategy';
+import { WalletFunding, WalletRefill, WALLET_BALANCE_CHECK_INTERVAL } from './wallet-funding';
+import { WalletCircuitBreaker, CircuitSnapshot } from './circuit-breaker';
+import { WalletPool, PoolWallet, WalletPoolState, WALLET_POOL_RELOAD_INTERVAL } from './wallet-pool';
+import { ConfirmationTracker, ConfirmationUpdate } from './confirmation-tracker';
+import { EventIndexer } from './event-indexer';
+import { markFailed } from './dead-letter';
+import { IdempotencyStore, checkPreviousSend } from './idempotency';
+import { RpcRouter, RpcEndpointHealth } from './rpc-transport';
 
 dotenv.config();
 
@@ -37,8 +55,9 @@ const PORT = parseInt(process.env.PORT || '3001');
 const WEBSOCKET_PING_INTERVAL = 30000; // 30s
 const CLEANUP_INTERVAL = 3600000; // 1h
 const WALLET_COUNT = parseInt(process.env.WALLET_COUNT || '3');
-const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS || '';
 const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '5');
+const QUEUE_CANDIDATE_FACTOR = 4; // rows fetched per batch slot when picking by priority
+const NONCE_CHECK_INTERVAL = parseInt(process.env.NONCE_CHECK_INTERVAL || '60000'); // 1 minute
 const USE_REDIS = process.env.USE_REDIS === 'true';
 const WORKER_COUNT = process.env.WORKER_COUNT ? parseInt(process.env.WORKER_COUNT) : os.cpus().length;
 
@@ -99,35 +118,62 @@ const createDbPool = () => {
 // Initialize the pool
 const pool = createDbPool();
 
+// Wallet sign-in challenges and server-issued game sessions
+const authService = new AuthService(pool, logger);
+const gameSessionService = new GameSessionService(pool, logger);
+const sponsorshipPolicy = new SponsorshipPolicy(pool, logger);
+const idempotencyStore = new IdempotencyStore(logger);
+const deploymentRegistry = loadDeployments();
+
 // Define Socket.IO event types
 interface ClientToServerEvents {
-  'client:auth': (data: { playerAddress: string; signature: string, username: string }) => void;
+  'client:authChallenge': (data: { playerAddress: string }) => void;
+  'client:auth': (data: { playerAddress: string; signature: string; nonce: string; username: string }) => void;
   'client:checkUsername': (data: { playerAddress: string }) => void;
-  'client:gameStart': (data: { playerAddress: string; gameId: string }) => void;
-  'client:jump': (data: { gameId: string; playerAddress: string; height: number; score: number }) => void;
-  'client:gameOver': (data: { gameId: string; playerAddress: string; finalScore: number; distance: number }) => void;
+  // playerAddress on game events is ignored; the address bound to the session is used instead
+  // deployment picks a configured deployment that accepts new games; the default otherwise
+  'client:gameStart': (data?: { playerAddress?: string; deployment?: string }) => void;
+  // idempotencyKey is chosen per event and kept on resends, so a resend is recorded once
+  'client:jump': (data: { gameId: string; ticket: string; playerAddress?: string; height: number; score: number; idempotencyKey?: string }) => void;
+  'client:gameOver': (data: { gameId: string; ticket: string; playerAddress?: string; finalScore: number; distance: number; replay?: ReplayLog; idempotencyKey?: string }) => void;
+  'client:logout': () => void;
+  'client:getQuota': () => void;
   'client:getLeaderboard': () => void;
   'client:getPendingCount': () => void;
   'disconnect': () => void;
 }
 
+type JumpAcknowledgement = { status: string; txId: number; gameId: string; sponsored: boolean };
+type GameOverAcknowledgement = { status: string; verdict?: string; txId: number | null; gameId: string; finalScore: number; isHighScore: boolean; underReview?: boolean };
+
 interface ServerToClientEvents {
-  'server:status': (data: { status: string; timestamp: number; pendingTransactions: number; walletStatus: WalletStatus[] }) => void;
-  'server:auth': (data: { status: string; playerAddress?: string; message?: string }) => void;
+  'server:status': (data: { status: string; timestamp: number; pendingTransactions: number; walletStatus: WalletStatus[]; rpcHealth: DeploymentRpcHealth[] }) => void;
+  'server:authChallenge': (data: { status: string; nonce?: string; message?: string; expiresAt?: number }) => void;
+  'server:auth': (data: { status: string; playerAddress?: string; message?: string; token?: string; expiresAt?: number }) => void;
   'server:usernameCheck': (data: { username: string | null; error?: boolean }) => void;
-  'server:gameStart': (data: { status: string; gameId: string; timestamp: number }) => void;
-  'server:jump': (data: { status: string; txId: number; gameId: string; timestamp: number }) => void;
-  'server:gameOver': (data: { status: string; txId: number; gameId: string; finalScore: number; isHighScore: boolean; timestamp: number }) => void;
+  'server:gameStart': (data: { status: string; gameId?: string; deployment?: string; ticket?: string; seed?: string; startedAt?: number; expiresAt?: number; message?: string; timestamp: number }) => void;
+  // duplicate marks the stored acknowledgement sent back for a resent event
+  'server:jump': (data: JumpAcknowledgement & { duplicate?: boolean; timestamp: number }) => void;
+  'server:gameOver': (data: GameOverAcknowledgement & { duplicate?: boolean; timestamp: number }) => void;
   'server:leaderboard': (data: { leaderboard: any[]; timestamp: number }) => void;
   'server:pendingCount': (data: { count: number; timestamp: number }) => void;
   'server:transactionUpdate': (data: any) => void;
-  'server:walletStatus': (data: { wallets: WalletStatus[]; timestamp: number }) => void;
+  'server:walletStatus': (data: { wallets: WalletStatus[]; rpcHealth: DeploymentRpcHealth[]; timestamp: number; refill?: WalletRefill }) => void;
+  'server:quota': (data: SponsorshipQuota & { timestamp: number }) => void;
   'server:highScore': (data: { playerAddress: string; score: number; gameId: string }) => void;
-  'server:error': (data: { message: string }) => void;
+  'server:error': (data: { message: string; code?: string; retryAfterMs?: number }) => void;
 }
 
-type ClientSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
-let io: SocketIOServer<ClientToServerEvents, ServerToClientEvents> | null = null;
+interface InterServerEvents {}
+
+// Per-socket state bound during the handshake or after client:auth
+interface SocketData {
+  playerAddress?: string;
+  sessionId?: string;
+}
+
+type ClientSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+let io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData> | null = null;
 
 // Redis client for pub/sub and shared state
 let redisClient: any = null;
@@ -157,18 +203,32 @@ let broadcastTransactionUpdate: (tx: any) => void = (tx: any) => {
   }
 };
 
+// Wallet status and RPC health as last sent by the primary, which owns the wallets
+let sharedWalletStatus: WalletStatus[] = [];
+let sharedRpcHealth: DeploymentRpcHealth[] = [];
+
+function currentWalletStatus(): WalletStatus[] {
+  return cluster.isPrimary ? allWalletStatus() : sharedWalletStatus;
+}
+
+function currentRpcHealth(): DeploymentRpcHealth[] {
+  return cluster.isPrimary ? allRpcHealth() : sharedRpcHealth;
+}
+
  // Define broadcastWalletStatus with a default no-op implementation
-let broadcastWalletStatus: () => void = () => {
+let broadcastWalletStatus: (refill?: WalletRefill) => void = (refill?: WalletRefill) => {
   // No-op implementation for when io is not available
   if (!io) {
     logger.debug('Attempted to broadcast wallet status before io initialization');
     return;
   }
   
-  const status = blockchainManager.getWalletStatus();
+  const status = currentWalletStatus();
   io?.emit('server:walletStatus', {
     wallets: status,
-    timestamp: Date.now()
+    rpcHealth: currentRpcHealth(),
+    timestamp: Date.now(),
+    ...(refill ? { refill } : {})
   });
 };
 
@@ -204,7 +264,8 @@ async function initRedis() {
 
 // Blockchain wallet management
 type WalletStatus = {
-  index: number;
+  deployment: string;
+  index: number;        // within the deployment's wallets
   address: string;
   isProcessing: boolean;
   lastTxHash?: string;
@@ -212,16 +273,34 @@ type WalletStatus = {
   totalProcessed: number;
   consecutiveErrors: number;
   queueLength?: number;
+  balance?: string;      // native currency, from the last balance check
+  lowBalance?: boolean;  // below WALLET_MIN_BALANCE, left out of selection
+  circuit?: CircuitSnapshot;
+  poolState?: WalletPoolState; // retiring wallets get no new work
 };
 
+type DeploymentRpcHealth = RpcEndpointHealth & { deployment: string };
+
+/**
+ * Sends one deployment's queued transactions from its relay wallet pool
+ */
 class BlockchainManager {
+  readonly deployment: Deployment;
   private walletClients: any[] = [];
   private publicClient: any;
-  private contractAddress: string;
-  private abi: any[];
+  private contract: DinoRunnerContract | null = null;
   private walletStatus: WalletStatus[] = [];
   private processingIntervals: NodeJS.Timeout[] = [];
-  private walletNonces: Map<number, bigint> = new Map(); // Track nonces per wallet
+  private nonceManager: NonceManager | null = null; // Nonces shared with the recovery server
+  private feeStrategy: FeeStrategy | null = null;
+  private walletFunding: WalletFunding | null = null;
+  private balanceCheckInterval: NodeJS.Timeout | null = null;
+  private circuitBreakers: WalletCircuitBreaker[] = [];
+  private walletPool: WalletPool;
+  private poolWallets: PoolWallet[] = [];
+  private poolReloadInterval: NodeJS.Timeout | null = null;
+  private rpcRouter: RpcRouter; // shared by every client, so health and routing are too
+  private statusListener: () => void = () => {};
   private walletQueues: Map<number, any[]> = new Map(); // Queue per wallet
   private queueProcessingInterval: NodeJS.Timeout | null = null;
   private readonly QUEUE_PROCESS_INTERVAL = 200; // ms between processing attempts
@@ -229,31 +308,27 @@ class BlockchainManager {
   private isInitialized: boolean = false;
   private lastUsedWalletIndex: number = -1;
   private readonly TRANSACTION_SPACING = 200; // ms between transactions for same wallet
-  private watcherInterval: NodeJS.Timeout | null = null;
-  private hourlyResetInterval: NodeJS.Timeout | null = null;
+  private confirmationTracker: ConfirmationTracker | null = null;
+  private eventIndexer: EventIndexer | null = null;
+  private nonceCheckInterval: NodeJS.Timeout | null = null;
 
 
 
-  constructor(contractAddress: string, abi: any[]) {
-    this.contractAddress = contractAddress;
-    this.abi = abi;
+  constructor(deployment: Deployment) {
+    this.deployment = deployment;
+    this.walletPool = new WalletPool(pool, logger, deployment.walletPools.relay, 'relay', WALLET_COUNT);
+    this.rpcRouter = new RpcRouter(logger, deployment.chain);
   }
 
   /**
    * Stop the transaction watcher
    */
   stopTransactionWatcher() {
-    if (this.watcherInterval) {
-      clearInterval(this.watcherInterval);
-      this.watcherInterval = null;
+    if (this.confirmationTracker) {
+      this.confirmationTracker.stop();
+      this.confirmationTracker = null;
+      logger.info("Transaction watcher stopped");
     }
-    
-    if (this.hourlyResetInterval) {
-      clearInterval(this.hourlyResetInterval);
-      this.hourlyResetInterval = null;
-    }
-    
-    logger.info("Transaction watcher stopped");
   }
 
   async initialize() {
@@ -270,98 +345,46 @@ class BlockchainManager {
       this.walletClients = [];
       this.walletStatus = [];
       this.walletQueues = new Map();
-      this.walletNonces = new Map();
+      this.circuitBreakers = [];
+      this.poolWallets = [];
       this.lastUsedWalletIndex = -1;
       
-      // Define wallet private keys
-      const privateKeys = [];
-      for (let i = 0; i < WALLET_COUNT; i++) {
-        const key = process.env[`PRIVATE_KEY_${i+1}`];
-        if (key && key.trim() !== '') {
-          privateKeys.push(key);
-          logger.info(`Found private key ${i+1}`);
-        } else {
-          logger.warn(`Private key ${i+1} not found or is empty`);
-        }
-      }
+      // Register the configured wallets on first run, then load the pool
+      await this.walletPool.seed();
+      const poolWallets = await this.walletPool.load();
       
-      if (privateKeys.length === 0) {
-        logger.error('No private keys configured');
-        throw new Error('No private keys configured');
+      if (poolWallets.length === 0) {
+        logger.error(`No relay wallets configured for ${this.deployment.name}`);
+        throw new Error(`No relay wallets configured for ${this.deployment.name}`);
       }
       
-      // Initialize RPC URL
-      const rpcUrl = process.env.RPC_URL || 'https://dream-rpc.somnia.network';
-      logger.info(`Using RPC URL: ${rpcUrl}`);
+      // Score the RPC endpoints; new health goes out with the wallet status
+      this.rpcRouter.startProbing(health => {
+        this.statusListener();
+        analyticsService?.trackRpcHealth(health);
+      });
       
       // Initialize public client
       this.publicClient = createPublicClient({
-        chain: SomniaChain,
-        transport: viemHttp(rpcUrl, {
-          timeout: 30000,
-          retryCount: 3,
-          retryDelay: 1000,
-        })
+        chain: this.deployment.chain,
+        transport: this.rpcRouter.createTransport()
       });
+      this.contract = new DinoRunnerContract(this.publicClient, this.deployment.contractAddress);
+      
+      this.nonceManager = new NonceManager(pool, logger, this.publicClient, 'relay');
+      await this.nonceManager.connect();
+      this.feeStrategy = new FeeStrategy(this.publicClient, logger);
+      this.walletFunding = new WalletFunding(
+        pool, logger, this.publicClient, this.nonceManager, this.feeStrategy, this.rpcRouter,
+        this.walletPool.signer.getTreasuryAccount()
+      );
       
       // Initialize wallet clients
-      for (let i = 0; i < privateKeys.length; i++) {
+      for (const poolWallet of poolWallets) {
         try {
-          logger.info(`Initializing wallet ${i}...`);
-          
-          // Ensure private key has 0x prefix
-          const privateKey = privateKeys[i].startsWith('0x') 
-            ? privateKeys[i] 
-            : `0x${privateKeys[i]}`;
-            
-          const account = privateKeyToAccount(privateKey as `0x${string}`);
-          
-          // Test if the account is valid
-          if (!account || !account.address) {
-            logger.error(`Invalid account for wallet ${i}`);
-            continue;
-          }
-          
-          logger.info(`Wallet ${i} account address: ${account.address}`);
-          
-          const walletClient = createWalletClient({
-            account,
-            chain: SomniaChain,
-            transport: viemHttp(rpcUrl, {
-              timeout: 30000,
-              retryCount: 3,
-              retryDelay: 1000,
-            })
-          });
-          
-          this.walletClients.push(walletClient);
-          this.walletStatus.push({
-            index: i,
-            address: account.address,
-            isProcessing: false,
-            totalProcessed: 0,
-            consecutiveErrors: 0,
-            queueLength: 0
-          });
-
-          // Initialize empty queue for this wallet
-          this.walletQueues.set(i, []);
-          
-          // Initialize nonce from blockchain
-          try {
-            const nonce = await this.publicClient.getTransactionCount({
-              address: account.address
-            });
-            this.walletNonces.set(i, nonce);
-            logger.info(`Wallet ${i} nonce: ${nonce}`);
-          } catch (nonceError) {
-            // Use 0 as default nonce if we can't get it from the blockchain
-            this.walletNonces.set(i, BigInt(0));
-          }
-          
-          logger.info(`Wallet ${i} initialized with address ${account.address}`);
+          await this.addWallet(poolWallet);
         } catch (error) {
-          logger.error(`Failed to initialize wallet ${i}:`, error);
+          logger.error(`Failed to initialize wallet ${poolWallet.address}:`, error);
         }
       }
       
@@ -371,10 +394,12 @@ class BlockchainManager {
       }
       
       this.isInitialized = true;
-      logger.info(`Blockchain manager initialized with ${this.walletClients.length} wallets`);
+      logger.info(`Blockchain manager for ${this.deployment.name} initialized with ${this.walletClients.length} wallets`);
       
       // Start queue processing
       this.startQueueProcessing();
+      this.startNonceMonitor();
+      this.startPoolReload();
       
       return true;
     } catch (error) {
@@ -383,32 +408,210 @@ class BlockchainManager {
     }
   }
 
-  async getNextNonce(walletIndex: number): Promise<bigint> {
+  /**
+   * Set up a pool wallet at the next index
+   */
+  private async addWallet(poolWallet: PoolWallet) {
+    const index = this.walletClients.length;
+    const account = poolWallet.account;
+    logger.info(`Initializing ${this.deployment.name} wallet ${index} (${poolWallet.source}) with address ${account.address}`);
+    
+    const walletClient = createWalletClient({
+      account,
+      chain: this.deployment.chain,
+      transport: this.rpcRouter.createTransport()
+    });
+    
+    this.walletClients.push(walletClient);
+    this.poolWallets.push(poolWallet);
+    this.walletStatus.push({
+      deployment: this.deployment.name,
+      index,
+      address: account.address,
+      isProcessing: false,
+      totalProcessed: 0,
+      consecutiveErrors: 0,
+      queueLength: 0,
+      poolState: poolWallet.state
+    });
+    this.circuitBreakers.push(new WalletCircuitBreaker(pool, logger, index, account.address, () => this.handleCircuitChange(index)));
+
+    // Initialize empty queue for this wallet
+    this.walletQueues.set(index, []);
+    
+    // Log where the wallet's nonces stand
     try {
-      // Always get fresh on-chain nonce
-      const onChainNonce = await this.publicClient.getTransactionCount({
-        address: this.walletClients[walletIndex].account.address,
-        blockTag: 'pending' // Include pending transactions
+      const nonceState = await this.nonceManager!.getNonceState(account.address);
+      logger.info(`Wallet ${index} nonce: latest ${nonceState.latest}, pending ${nonceState.pending}, reserved up to ${nonceState.next ?? 'none'}`);
+      if (nonceState.gaps.length > 0) {
+        logger.warn(`Wallet ${index} has nonce gaps at ${nonceState.gaps.join(', ')}`);
+      }
+    } catch (nonceError) {
+      logger.warn(`Could not read nonce state for wallet ${index}:`, nonceError);
+    }
+  }
+
+  /**
+   * Reload the pool periodically so wallets added, retired or rotated with
+   * wallet-admin take effect without a restart
+   */
+  startPoolReload() {
+    if (this.poolReloadInterval) {
+      clearInterval(this.poolReloadInterval);
+    }
+
+    this.poolReloadInterval = setInterval(() => {
+      this.reloadWalletPool().catch(error => {
+        logger.error('Error reloading wallet pool:', error);
       });
-      
-      // Compare with locally tracked nonce
-      const trackedNonce = this.walletNonces.get(walletIndex) || BigInt(0);
-      
-      // Use the maximum value to avoid nonce errors
-      const nextNonce = onChainNonce > trackedNonce ? onChainNonce : trackedNonce;
-      
-      // Update tracker for future reference
-      this.walletNonces.set(walletIndex, nextNonce);
-      
-      return nextNonce;
-    } catch (error) {
-      logger.error(`Failed to get nonce for wallet ${walletIndex}:`, error);
-      
-      // Fall back to tracked nonce if we have one
-      const fallbackNonce = this.walletNonces.get(walletIndex);
-      if (fallbackNonce !== undefined) return fallbackNonce;
-      
-      throw new Error(`Cannot determine nonce for wallet ${walletIndex}`);
+    }, WALLET_POOL_RELOAD_INTERVAL);
+  }
+
+  /**
+   * Pick up wallet pool changes: start new wallets, drain retiring ones, and
+   * retire drained ones once their nonces have cleared
+   */
+  async reloadWalletPool() {
+    const wallets = await this.walletPool.load();
+    let changed = false;
+
+    for (const wallet of wallets) {
+      const index = this.poolWallets.findIndex(known => known.address === wallet.address);
+
+      if (index === -1) {
+        await this.addWallet(wallet);
+        changed = true;
+        continue;
+      }
+
+      const previousState = this.walletStatus[index].poolState;
+      this.poolWallets[index] = wallet;
+      this.walletStatus[index].poolState = wallet.state;
+
+      if (wallet.state !== previousState) {
+        logger.info(`Wallet ${index} is now ${wallet.state}`);
+        changed = true;
+        if (wallet.state === 'retiring') {
+          this.moveQueuedTransactions(index, this.walletStatus[index].isProcessing);
+        }
+      }
+    }
+
+    for (let i = 0; i < this.poolWallets.length; i++) {
+      const status = this.walletStatus[i];
+      const queue = this.walletQueues.get(i) || [];
+      if (status.poolState !== 'retiring' || status.isProcessing || queue.length > 0) continue;
+
+      // Hold the wallet while its balance is swept
+      status.isProcessing = true;
+      try {
+        const retired = await this.walletPool.finalizeRetirement(
+          this.poolWallets[i], this.walletClients[i], this.publicClient, this.nonceManager!, this.feeStrategy!
+        );
+        if (retired) {
+          this.poolWallets[i].state = 'retired';
+          status.poolState = 'retired';
+          changed = true;
+        }
+      } catch (error) {
+        logger.error(`Error retiring wallet ${i}:`, error);
+      } finally {
+        status.isProcessing = false;
+      }
+    }
+
+    if (changed) {
+      this.statusListener();
+    }
+  }
+
+  /**
+   * Hand a wallet's queued transactions to other wallets
+   * @param keepHead Leave the entry being sent in place
+   */
+  private moveQueuedTransactions(walletIndex: number, keepHead: boolean) {
+    const queue = this.walletQueues.get(walletIndex) || [];
+    const stranded = queue.splice(keepHead ? 1 : 0);
+    this.walletStatus[walletIndex].queueLength = queue.length;
+
+    if (stranded.length > 0) {
+      logger.warn(`Moving ${stranded.length} transactions off wallet ${walletIndex}`);
+      for (const tx of stranded) {
+        this.queueTransaction(tx);
+      }
+    }
+  }
+
+  /**
+   * Whether a wallet may be given new work
+   */
+  private canTakeWork(walletIndex: number): boolean {
+    const wallet = this.walletStatus[walletIndex];
+    return wallet.poolState === 'active' && !wallet.lowBalance && this.circuitBreakers[walletIndex].isAvailable();
+  }
+
+  /**
+   * Periodically replace stuck transactions and fill nonce gaps for idle wallets
+   */
+  startNonceMonitor() {
+    if (this.nonceCheckInterval) {
+      clearInterval(this.nonceCheckInterval);
+    }
+
+    this.nonceCheckInterval = setInterval(async () => {
+      for (let i = 0; i < this.walletClients.length; i++) {
+        if (this.walletStatus[i].isProcessing || this.walletStatus[i].poolState === 'retired') continue;
+
+        // Hold the wallet so the queue doesn't send while we resend at old nonces
+        this.walletStatus[i].isProcessing = true;
+        try {
+          const resolutions = await this.nonceManager!.resolveStuck(this.walletClients[i]);
+          for (const resolution of resolutions) {
+            await this.applyNonceResolution(i, resolution);
+          }
+        } catch (error) {
+          logger.error(`Error checking nonces for wallet ${i}:`, error);
+        } finally {
+          this.walletStatus[i].isProcessing = false;
+        }
+      }
+    }, NONCE_CHECK_INTERVAL);
+  }
+
+  /**
+   * Point the queue row at its replacement, or send it back for recovery if its
+   * transaction was cancelled
+   */
+  private async applyNonceResolution(walletIndex: number, resolution: NonceResolution) {
+    if (!resolution.txId || !resolution.previousHash) return;
+
+    const client = await pool.connect();
+    try {
+      const result = resolution.action === 'replaced'
+        ? await client.query(
+            'UPDATE dino_transaction_queue SET hash = $1 WHERE id = $2 AND hash = $3 RETURNING *',
+            [resolution.hash, resolution.txId, resolution.previousHash]
+          )
+        : await client.query(
+            `UPDATE dino_transaction_queue SET status = 'failed', error_class = 'nonce', last_error = $3
+             WHERE id = $1 AND hash = $2 AND status = 'sent' RETURNING *`,
+            [resolution.txId, resolution.previousHash, `Cancelled at nonce ${resolution.nonce}`]
+          );
+      if (result.rows.length === 0) return;
+
+      const tx = result.rows[0];
+      logger.info(`Wallet ${walletIndex} ${resolution.action} transaction ${tx.id} at nonce ${resolution.nonce}`);
+      broadcastTransactionUpdate({
+        id: tx.id,
+        player_address: tx.player_address,
+        game_id: tx.game_id,
+        type: tx.type,
+        status: tx.status,
+        hash: tx.hash,
+        score: tx.score
+      });
+    } finally {
+      client.release();
     }
   }
 
@@ -423,15 +626,15 @@ class BlockchainManager {
     }
 
     queueToWallet(walletIndex: number, tx: any) {
-      // Add directly to this wallet's queue
+      // Add directly to this wallet's queue, behind the entry being sent
       const queue = this.walletQueues.get(walletIndex) || [];
-      queue.push({
+      const position = insertByPriority(queue, {
         ...tx,
         queuedAt: Date.now()
-      });
+      }, this.walletStatus[walletIndex].isProcessing ? 1 : 0);
       this.walletQueues.set(walletIndex, queue);
       
-      logger.info(`Transaction ${tx.id} added directly to wallet ${walletIndex} queue`);
+      logger.info(`Transaction ${tx.id} added directly to wallet ${walletIndex} queue at position ${position}`);
       
       // Update wallet status
       this.walletStatus[walletIndex].queueLength = queue.length;
@@ -448,16 +651,107 @@ class BlockchainManager {
     logger.info('Stopped transaction queue processing');
   }
 
+  /**
+   * IDs of transactions waiting in any wallet queue, including ones being sent
+   */
+  getQueuedTransactionIds(): number[] {
+    const ids: number[] = [];
+    for (const queue of this.walletQueues.values()) {
+      for (const tx of queue) {
+        ids.push(tx.id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Check every wallet's balance now and then periodically, refilling low ones
+   * from the treasury
+   * @param onChange Called after each check, and with the refill after each top-up
+   */
+  async startBalanceMonitor(onChange: (refill?: WalletRefill) => void) {
+    if (this.balanceCheckInterval) {
+      clearInterval(this.balanceCheckInterval);
+    }
+
+    const check = async () => {
+      for (let i = 0; i < this.walletStatus.length; i++) {
+        const status = this.walletStatus[i];
+        if (status.poolState === 'retired') continue;
+        try {
+          const balance = await this.walletFunding!.getBalance(status.address);
+          const wasLow = status.lowBalance;
+          status.balance = formatEther(balance);
+          status.lowBalance = this.walletFunding!.isLow(balance);
+
+          if (status.lowBalance && !wasLow) {
+            logger.warn(`${this.deployment.name} wallet ${i} balance ${status.balance} ${this.deployment.chain.nativeCurrency.symbol} is below the minimum, leaving it out of selection`);
+          }
+
+          // Retiring wallets are about to be swept, not topped up
+          if (status.lowBalance && status.poolState === 'active') {
+            const refill = await this.walletFunding!.refill(status.address, balance);
+            if (refill) onChange(refill);
+          }
+        } catch (error) {
+          logger.error(`Error checking balance of wallet ${i}:`, error);
+        }
+      }
+      onChange();
+    };
+
+    await check();
+    this.balanceCheckInterval = setInterval(check, WALLET_BALANCE_CHECK_INTERVAL);
+  }
+
+  /**
+   * Called whenever wallet status changes outside the regular balance checks
+   */
+  setStatusListener(listener: () => void) {
+    this.statusListener = listener;
+  }
+
+  /**
+   * Move work off a wallet whose circuit just opened and publish the change
+   */
+  private handleCircuitChange(walletIndex: number) {
+    // The entry that tripped the circuit has already left the queue
+    if (!this.circuitBreakers[walletIndex].isAvailable()) {
+      this.moveQueuedTransactions(walletIndex, false);
+    }
+
+    this.statusListener();
+  }
+
+  /**
+   * Whether any wallet can take new work
+   */
+  hasAvailableWallet(): boolean {
+    return this.walletStatus.some((_, i) => this.canTakeWork(i));
+  }
+
+  /**
+   * Transaction types held back by a fee spike
+   */
+  async getPausedTypes(): Promise<string[]> {
+    return this.feeStrategy ? this.feeStrategy.getPausedTypes() : [];
+  }
+
   // Get wallet status
   getWalletStatus(): WalletStatus[] {
     // Update queue lengths
     for (let i = 0; i < this.walletStatus.length; i++) {
       const queue = this.walletQueues.get(i) || [];
       this.walletStatus[i].queueLength = queue.length;
+      this.walletStatus[i].circuit = this.circuitBreakers[i]?.snapshot();
     }
     return [...this.walletStatus];
   }
 
+  getRpcHealth(): DeploymentRpcHealth[] {
+    return this.rpcRouter.getHealth().map(health => ({ ...health, deployment: this.deployment.name }));
+  }
+
   selectNextWallet() {
     if (!this.walletClients || this.walletClients.length === 0) {
       logger.error('No wallet clients initialized');
@@ -469,10 +763,10 @@ class BlockchainManager {
     let lowestErrorCount = Number.MAX_SAFE_INTEGER;
     let lowestQueueLength = Number.MAX_SAFE_INTEGER;
   
-    // First try to find a non-processing wallet
+    // First try to find a non-processing wallet that can take work
     for (let i = 0; i < totalWallets; i++) {
       const wallet = this.walletStatus[i];
-      if (!wallet.isProcessing && wallet.consecutiveErrors < 5) {
+      if (!wallet.isProcessing && this.canTakeWork(i)) {
         bestWalletIndex = i;
         break;
       }
@@ -483,6 +777,7 @@ class BlockchainManager {
       for (let i = 0; i < totalWallets; i++) {
         const wallet = this.walletStatus[i];
         const queue = this.walletQueues.get(i) || [];
+        if (!this.canTakeWork(i)) continue;
         if (queue.length < lowestQueueLength) {
           lowestQueueLength = queue.length;
           bestWalletIndex = i;
@@ -490,9 +785,10 @@ class BlockchainManager {
       }
     }
   
-    // If still no wallet, pick any available one
+    // If still no wallet, every one is retiring, low on funds or has an open circuit
     if (bestWalletIndex === -1) {
-      bestWalletIndex = (this.lastUsedWalletIndex + 1) % totalWallets;
+      logger.warn('No wallet can take new work');
+      return -1;
     }
   
     this.lastUsedWalletIndex = bestWalletIndex;
@@ -511,10 +807,7 @@ class BlockchainManager {
         try {
           const client = await pool.connect();
           try {
-            await client.query(
-              'UPDATE dino_transaction_queue SET status = $1, retries = retries + 1 WHERE id = $2',
-              ['failed', tx.id]
-            );
+            await markFailed(client, tx.id, 'No available wallets to process transaction');
             
             logger.error(`Transaction ${tx.id} marked as failed due to no available wallets`);
             
@@ -538,12 +831,12 @@ class BlockchainManager {
       return -1; // Return -1 to indicate failure
     }
     
-    // Add to wallet's queue
+    // Add to wallet's queue, behind the entry being sent
     const queue = this.walletQueues.get(walletIndex) || [];
-    queue.push({
+    insertByPriority(queue, {
       ...tx,
       queuedAt: Date.now()
-    });
+    }, this.walletStatus[walletIndex].isProcessing ? 1 : 0);
     this.walletQueues.set(walletIndex, queue);
     
     logger.info(`Transaction ${tx.id} added to wallet ${walletIndex} queue, length: ${queue.length}`);
@@ -555,47 +848,14 @@ class BlockchainManager {
   }
   
 
-  async processPlayerNameUpdate(walletIndex: number, tx: any) {
-    const wallet = this.walletClients[walletIndex];
-    const currentNonce = this.walletNonces.get(walletIndex);
-    
-    if (!currentNonce) {
-      throw new Error(`No nonce available for wallet ${walletIndex}`);
-    }
-    
-    try {
-      // Simulate the contract call first
-      const { request } = await this.publicClient.simulateContract({
-        address: this.contractAddress as `0x${string}`,
-        abi: this.abi,
-        functionName: 'setPlayer',
-        args: [
-          tx.player_address as `0x${string}`,
-          tx.username || "" 
-        ],
-        account: wallet.account,
-        nonce: currentNonce
-      });
-      
-      // Send the transaction
-      const hash = await wallet.writeContract(request);
-      
-      // Update the nonce for next transaction
-      this.walletNonces.set(walletIndex, currentNonce + BigInt(1));
-      
-      return hash;
-    } catch (error) {
-      logger.error(`Error updating player name for ${tx.player_address}:`, error);
-      throw error;
-    }
-  }
-
   // Process the transaction queue for a specific wallet
   async processWalletQueue(walletIndex: number) {
-    // Skip if this wallet is already processing or has too many errors
+    // Skip if this wallet is already processing, retired or its circuit is open
     if (
       !this.walletClients[walletIndex] || 
-      this.walletStatus[walletIndex].isProcessing
+      this.walletStatus[walletIndex].isProcessing ||
+      this.walletStatus[walletIndex].poolState === 'retired' ||
+      !this.circuitBreakers[walletIndex].isAvailable()
     ) {
       return;
     }
@@ -605,6 +865,15 @@ class BlockchainManager {
       return; // Nothing to process
     }
     
+    // While fees spike, let transactions that aren't held back go first
+    if (this.feeStrategy?.isPaused(queue[0].type)) {
+      const nextIndex = queue.findIndex(queued => !this.feeStrategy!.isPaused(queued.type));
+      if (nextIndex === -1) {
+        return;
+      }
+      queue.unshift(...queue.splice(nextIndex, 1));
+    }
+    
     // Mark wallet as processing
     this.walletStatus[walletIndex].isProcessing = true;
     
@@ -612,166 +881,65 @@ class BlockchainManager {
       // Process one transaction at a time
       const tx = queue[0]; // Get the next transaction without removing it yet
       
-      // Get the current nonce for this wallet
-      let currentNonce = await this.getNextNonce(walletIndex);
-
-      if (currentNonce === undefined) {
-        // If nonce not in map, get it from blockchain
-        currentNonce = await this.publicClient.getTransactionCount({
-          address: this.walletClients[walletIndex].account.address
-        });
-        
-        // Ensure currentNonce is a bigint before storing it
-        if (currentNonce !== undefined) {
-          this.walletNonces.set(walletIndex, currentNonce as bigint);
-        } else {
-          throw new Error(`Failed to get nonce for wallet ${walletIndex}`);
-        }
+      // Sent already, but its hash isn't written yet: only the write is retried
+      if (tx.broadcast) {
+        await this.recordSent(walletIndex, tx, queue);
+        return;
+      }
+      
+      // A row sent before (then failed or reorged out) may have landed after all
+      if (tx.hash && await this.resumeIfAlreadySent(tx)) {
+        queue.shift();
+        this.walletQueues.set(walletIndex, queue);
+        return;
+      }
+      
+      // A row its type rejects fails without taking a nonce or counting against the wallet
+      const invalidReason = validateTransaction(tx);
+      if (invalidReason) {
+        logger.warn(`Transaction ${tx.id} not sent: ${invalidReason}`);
+        await this.failTransaction(tx, invalidReason);
+        queue.shift();
+        this.walletQueues.set(walletIndex, queue);
+        return;
       }
       
       const wallet = this.walletClients[walletIndex];
+      const fees = await this.feeStrategy!.getFees();
+      
+      // Reserve a nonce no other process will use for this wallet
+      const currentNonce = await this.nonceManager!.reserve(wallet.account.address, tx.id);
+      
+      if (this.circuitBreakers[walletIndex].isProbing()) {
+        logger.info(`Wallet ${walletIndex} sending transaction ${tx.id} as circuit probe`);
+      }
       
       // Process the transaction
+      let hash: Hash;
       try {
-        let hash: string | undefined;
-
-        if (tx.type === TX_TYPE_JUMP) {
-          // Record jump transaction
-          const { request } = await this.publicClient.simulateContract({
-            address: this.contractAddress as `0x${string}`,
-            abi: this.abi,
-            functionName: 'recordJump',
-            args: [
-              tx.player_address as `0x${string}`,
-              // Convert to string first to handle undefined/null
-              BigInt(String(tx.height || 0)),
-              BigInt(String(tx.score || 0)),
-              tx.game_id
-            ],
-            account: wallet.account,
-            nonce: currentNonce
-          });
-          
-          hash = await wallet.writeContract(request);
-          
-        } else if (tx.type === TX_TYPE_GAME_OVER) {
-          // Record game over transaction
-          const { request } = await this.publicClient.simulateContract({
-            address: this.contractAddress as `0x${string}`,
-            abi: this.abi,
-            functionName: 'recordGameOver',
-            args: [
-              tx.player_address as `0x${string}`,
-              BigInt(String(tx.score || 0)),
-              tx.game_id
-            ],
-            account: wallet.account,
-            nonce: currentNonce
-          });
-          
-          hash = await wallet.writeContract(request);
-        } else if (tx.type === 'setplayer') {
-          // Handle player name update
-          hash = await this.processPlayerNameUpdate(walletIndex, tx);
-        }
-        
-        // Update database
-        if (hash) {
-          const client = await pool.connect();
-          try {
-            // Update transaction status in database
-            await client.query(
-              'UPDATE dino_transaction_queue SET status = $1, hash = $2, wallet_index = $3 WHERE id = $4',
-              ['sent', hash, walletIndex, tx.id]
-            );
-          } finally {
-            client.release();
-          }
-          
-          // Increment counters
-          this.walletStatus[walletIndex].totalProcessed++;
-          
-          // Reset consecutive errors on success
-          this.walletStatus[walletIndex].consecutiveErrors = 0;
-          
-          // Track in analytics
-          if (analyticsService) {
-            analyticsService.trackTransaction({
-              id: tx.id,
-              player_address: tx.player_address,
-              game_id: tx.game_id,
-              type: tx.type,
-              status: 'sent',
-              hash,
-              score: tx.score
-            });
-          }
-          
-          // Broadcast transaction update
-          broadcastTransactionUpdate({
-            id: tx.id,
-            player_address: tx.player_address,
-            game_id: tx.game_id,
-            type: tx.type,
-            status: 'sent',
-            hash,
-            score: tx.score
-          });
-          
-          logger.info(`Wallet ${walletIndex} processed ${tx.type} transaction for ${tx.player_address}, hash: ${hash}`);
-        }
-        
-        // Remove the processed transaction from queue
-        queue.shift();
-        this.walletQueues.set(walletIndex, queue);
-        
+        // Send with the contract function the row's type maps to
+        hash = await sendTransaction(this.contract!, tx, {
+          walletClient: wallet,
+          nonce: currentNonce,
+          fees
+        });
       } catch (err) {
         logger.error(`Wallet ${walletIndex} error processing transaction ${tx.id}:`, err);
         
+        // Nothing was broadcast, so the nonce can go back
+        await this.nonceManager!.release(wallet.account.address, currentNonce);
+        
         // Check for nonce error
         const errorMessage = err instanceof Error ? err.message : 'Unknown transaction error';
         
         if (errorMessage.includes('NONCE_TOO_SMALL')) {
-          // If nonce is too small, get the current nonce from blockchain and try again
-          logger.warn(`Nonce too small for wallet ${walletIndex}, refreshing nonce`);
-          const newNonce = await this.publicClient.getTransactionCount({
-            address: this.walletClients[walletIndex].account.address
-          });
-          this.walletNonces.set(walletIndex, newNonce);
+          // The next reservation starts from the chain's pending count again
+          logger.warn(`Nonce too small for wallet ${walletIndex}, retrying with a fresh nonce`);
           
           // Keep transaction in queue to retry with correct nonce
         } else {
           // For other errors, mark the transaction as failed
-          const client = await pool.connect();
-          try {
-            await client.query(
-              'UPDATE dino_transaction_queue SET status = $1, retries = retries + 1 WHERE id = $2',
-              ['failed', tx.id]
-            );
-          } finally {
-            client.release();
-          }
-          
-          // Track failed transaction
-          if (analyticsService) {
-            analyticsService.trackTransaction({
-              id: tx.id,
-              player_address: tx.player_address,
-              game_id: tx.game_id,
-              type: tx.type,
-              status: 'failed',
-              error: errorMessage
-            });
-          }
-          
-          // Broadcast failure
-          broadcastTransactionUpdate({
-            id: tx.id,
-            player_address: tx.player_address,
-            game_id: tx.game_id,
-            type: tx.type,
-            status: 'failed'
-          });
+          await this.failTransaction(tx, err);
           
           // Remove the failed transaction from queue
           queue.shift();
@@ -779,12 +947,19 @@ class BlockchainManager {
           
           // Increment consecutive errors
           this.walletStatus[walletIndex].consecutiveErrors += 1;
+          this.circuitBreakers[walletIndex].recordFailure(errorMessage);
         }
+        return;
       }
       
+      // The transaction is out: its nonce is used and the row must keep its hash
+      tx.broadcast = { address: wallet.account.address, nonce: currentNonce, hash, fees };
+      await this.recordSent(walletIndex, tx, queue);
+      
     } catch (error) {
       logger.error(`Error in wallet queue processing for wallet ${walletIndex}:`, error);
       this.walletStatus[walletIndex].consecutiveErrors += 1;
+      this.circuitBreakers[walletIndex].recordFailure(error instanceof Error ? error.message : 'Unknown wallet error');
     } finally {
       // Add a small delay before processing the next transaction
       setTimeout(() => {
@@ -794,186 +969,260 @@ class BlockchainManager {
   }
 
   /**
-   * Start watching for transaction confirmations
-   * @param {Function} onConfirmation - Callback for confirmed transactions
+   * Write a broadcast transaction's nonce and hash, then report it. A failed
+   * write leaves the row at the head of the wallet's queue, still leased, to
+   * be written again; it is never released, failed or sent a second time.
    */
-  startTransactionWatcher(onConfirmation: (tx: any, status: 'confirmed' | 'failed', receipt: any) => void) {
-    if (!this.publicClient) {
-      logger.warn('Cannot start transaction watcher: public client not initialized');
-      return;
-    }
-
-    logger.info('Starting rate-limited transaction watcher...');
-  
-      // Transaction processing variables
-      const BATCH_SIZE = 10; // Process 10 transactions at a time
-      const CHECK_INTERVAL = 10000; // Check every 10 seconds
-      const HOURLY_LIMIT = 10; // Process only 10 transactions per hour
-    
-      // Track processed count within the current hour
-    let processedThisHour = 0;
-    let hourStartTime = Date.now();
+  private async recordSent(walletIndex: number, tx: any, queue: any[]) {
+    const { address, nonce, hash, fees } = tx.broadcast;
     
-    // Reset the hourly counter every hour
-    const hourlyReset = setInterval(() => {
-      processedThisHour = 0;
-      hourStartTime = Date.now();
-      logger.info('Resetting hourly transaction check counter');
-    }, 3600000); // 1 hour
-
-    // Create polling interval 
-  const pollInterval = setInterval(async () => {
     try {
-      // Skip if we've already hit the hourly limit
-      if (processedThisHour >= HOURLY_LIMIT) {
-        return;
-      }
+      await this.nonceManager!.markSent(address, nonce, hash);
       
-      // Calculate how many we can process in this batch
-      const remaining = HOURLY_LIMIT - processedThisHour;
-      const toProcess = Math.min(remaining, BATCH_SIZE);
-      
-      // Get pending transactions from DB
       const client = await pool.connect();
       try {
-        const pendingTxs = await client.query(
-          "SELECT * FROM dino_transaction_queue WHERE status = 'sent' AND hash IS NOT NULL ORDER BY timestamp ASC LIMIT $1",
-          [toProcess]
+        // Update transaction status in database
+        await client.query(
+          `UPDATE dino_transaction_queue 
+           SET status = $1, hash = $2, wallet_index = $3, max_fee_per_gas = $4, max_priority_fee_per_gas = $5,
+               block_number = NULL, block_hash = NULL
+           WHERE id = $6`,
+          ['sent', hash, walletIndex, fees.maxFeePerGas.toString(), fees.maxPriorityFeePerGas.toString(), tx.id]
         );
-        
-        if (pendingTxs.rows.length === 0) {
-          return; // No pending transactions
-        }
-        
-        logger.info(`Checking ${pendingTxs.rows.length} of ${toProcess} pending transactions for confirmation`);
-        
-        // Check each transaction for confirmation
-        for (const tx of pendingTxs.rows) {
-          try {
-            // Increment counter as we're processing this transaction
-            processedThisHour++;
-            
-            const receipt = await this.publicClient.getTransactionReceipt({
-              hash: tx.hash as `0x${string}`
-            });
-            
-            if (receipt) {
-              // Transaction is confirmed
-              const status = receipt.status === 'success' ? 'confirmed' : 'failed';
-              
-              // Update transaction status in DB
-              await client.query(
-                "UPDATE dino_transaction_queue SET status = $1 WHERE id = $2",
-                [status, tx.id]
-              );
-              
-              // Call the confirmation callback
-              onConfirmation(tx, status, receipt);
-              
-              logger.info(`Transaction ${tx.hash} confirmed with status ${status} (${processedThisHour}/${HOURLY_LIMIT} this hour)`);
-            } else {
-              // Check if transaction is too old
-              const txTimestamp = new Date(tx.timestamp).getTime();
-              const hoursAgo = Date.now() - (12 * 3600000); // 12 hours
-              
-              if (txTimestamp < hoursAgo) {
-                await client.query(
-                  "UPDATE dino_transaction_queue SET status = 'failed' WHERE id = $1",
-                  [tx.id]
-                );
-                logger.warn(`Marking old transaction ${tx.hash} as failed (over 12 hours old)`);
-                
-                // Call callback with failed status
-                onConfirmation(tx, 'failed', null);
-              } else {
-                logger.info(`Transaction ${tx.hash} not yet confirmed, will retry later`);
-              }
-            }
-          } catch (txError) {
-            logger.warn(`Error checking transaction ${tx.hash}: ${txError instanceof Error ? txError.message : txError}`);
-          }
-        }
       } finally {
         client.release();
       }
     } catch (error) {
-      logger.error("Error in transaction watcher:", error);
+      logger.error(`Wallet ${walletIndex} sent transaction ${tx.id} as ${hash} but couldn't record it, retrying:`, error);
+      return;
     }
-  }, CHECK_INTERVAL);
     
-    // Store interval references for shutdown
-    this.watcherInterval = pollInterval;
-    this.hourlyResetInterval = hourlyReset;
-  
-    logger.info(`Transaction confirmation watcher started: ${BATCH_SIZE} per batch, ${HOURLY_LIMIT} per hour, checking every ${CHECK_INTERVAL/1000}s`);
-  
-    return pollInterval;
+    // Increment counters
+    this.walletStatus[walletIndex].totalProcessed++;
+    
+    // Reset consecutive errors on success
+    this.walletStatus[walletIndex].consecutiveErrors = 0;
+    this.circuitBreakers[walletIndex].recordSuccess();
+    
+    // Track in analytics
+    if (analyticsService) {
+      analyticsService.trackTransaction({
+        id: tx.id,
+        player_address: tx.player_address,
+        game_id: tx.game_id,
+        type: tx.type,
+        status: 'sent',
+        hash,
+        score: tx.score,
+        username: tx.username
+      });
+    }
+    
+    // Broadcast transaction update
+    broadcastTransactionUpdate({
+      id: tx.id,
+      player_address: tx.player_address,
+      game_id: tx.game_id,
+      type: tx.type,
+      status: 'sent',
+      hash,
+      score: tx.score
+    });
+    
+    logger.info(`Wallet ${walletIndex} processed ${tx.type} transaction for ${tx.player_address}, hash: ${hash}`);
+
+    // Remove the processed transaction from queue
+    queue.shift();
+    this.walletQueues.set(walletIndex, queue);
+  }
+
+  /**
+   * Mark a row failed for the recovery server and tell analytics and the player
+   */
+  private async failTransaction(tx: any, error: unknown) {
+    const client = await pool.connect();
+    try {
+      await markFailed(client, tx.id, error);
+    } finally {
+      client.release();
+    }
+    
+    // Track failed transaction
+    if (analyticsService) {
+      analyticsService.trackTransaction({
+        id: tx.id,
+        player_address: tx.player_address,
+        game_id: tx.game_id,
+        type: tx.type,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    
+    // Broadcast failure
+    broadcastTransactionUpdate({
+      id: tx.id,
+      player_address: tx.player_address,
+      game_id: tx.game_id,
+      type: tx.type,
+      status: 'failed'
+    });
   }
 
-  // Reset a wallet's error count
+  /**
+   * Put a row back to 'sent' instead of sending it again when its last hash
+   * was mined or is still in the mempool; the confirmation tracker takes it
+   * from there
+   * @returns Whether the row was resumed
+   */
+  private async resumeIfAlreadySent(tx: any): Promise<boolean> {
+    const previous = await checkPreviousSend(this.publicClient, tx.hash);
+    if (previous !== 'landed' && previous !== 'pending') return false;
+
+    const client = await pool.connect();
+    try {
+      await client.query(
+        `UPDATE dino_transaction_queue
+         SET status = 'sent', block_number = NULL, block_hash = NULL, lease_owner = NULL, lease_expires_at = NULL
+         WHERE id = $1`,
+        [tx.id]
+      );
+    } finally {
+      client.release();
+    }
+
+    logger.warn(`Transaction ${tx.id} not resent: its earlier hash ${tx.hash} is ${previous}`);
+    broadcastTransactionUpdate({
+      id: tx.id,
+      player_address: tx.player_address,
+      game_id: tx.game_id,
+      type: tx.type,
+      status: 'sent',
+      hash: tx.hash,
+      score: tx.score
+    });
+    return true;
+  }
+
+  /**
+   * Start confirming sent transactions as new blocks arrive
+   * @param {Function} onUpdate - Called after a row is final or moved by a reorg
+   */
+  startTransactionWatcher(onUpdate: (tx: any, update: ConfirmationUpdate) => void) {
+    if (!this.publicClient) {
+      logger.warn('Cannot start transaction watcher: public client not initialized');
+      return;
+    }
+
+    this.stopTransactionWatcher();
+    this.confirmationTracker = new ConfirmationTracker(pool, logger, this.rpcRouter, this.deployment.name, onUpdate);
+    this.confirmationTracker.start();
+  }
+
+  /**
+   * Start indexing contract events into Postgres
+   */
+  startEventIndexer() {
+    if (this.eventIndexer) {
+      this.eventIndexer.stop();
+    }
+    this.eventIndexer = new EventIndexer(pool, logger, this.rpcRouter, this.deployment);
+    this.eventIndexer.start();
+  }
+
+  // Reset a wallet's error count and close its circuit
   resetWallet(index: number) {
     if (index >= 0 && index < this.walletStatus.length) {
       this.walletStatus[index].consecutiveErrors = 0;
+      this.circuitBreakers[index].reset();
       logger.info(`Reset wallet ${index}`);
     }
   }
 }
 
 // Function to process queue from database periodically
+// Leases on claimed queue rows, held by the primary while they wait in wallet queues
+const queueLease = new QueueLeaseManager(pool, logger, 'relay');
+
 async function startProcessingQueueFromDB() {
   setInterval(async () => {
-    const client = await pool.connect();
-    try {
-      // Begin transaction
-      await client.query('BEGIN');
-      
-      // Get batch of pending transactions
-      const result = await client.query(`
-        SELECT * FROM dino_transaction_queue 
-        WHERE status = 'pending' 
-        ORDER BY id ASC
-        LIMIT ${BATCH_SIZE}
-        FOR UPDATE SKIP LOCKED
-      `);
+    for (const manager of blockchainManagers.values()) {
+      await processDeploymentQueue(manager);
+    }
+  }, 1000); // Check every second
+}
+
+/**
+ * Hand a batch of one deployment's pending rows to its wallets
+ */
+async function processDeploymentQueue(manager: BlockchainManager) {
+  // Leave rows pending until a wallet can take them
+  if (!manager.hasAvailableWallet()) {
+    return;
+  }
+  
+  // Leave types held back by a fee spike in the database
+  const pausedTypes = await manager.getPausedTypes();
+  
+  const client = await pool.connect();
+  try {
+    // Begin transaction
+    await client.query('BEGIN');
+    
+    // Get candidates by priority; extra rows leave room to skip capped types
+    const result = await client.query(`
+      SELECT * FROM dino_transaction_queue 
+      WHERE status = 'pending' 
+      AND deployment = $2
+      AND NOT (type = ANY($1))
+      ORDER BY ${QUEUE_ORDER_BY}
+      LIMIT ${BATCH_SIZE * QUEUE_CANDIDATE_FACTOR}
+      FOR UPDATE SKIP LOCKED
+    `, [pausedTypes, manager.deployment.name]);
+    
+    // Respect per-type concurrency caps
+    const inFlightResult = await client.query(`
+      SELECT type, COUNT(*)::int AS count FROM dino_transaction_queue 
+      WHERE status = 'processing' AND deployment = $1
+      GROUP BY type
+    `, [manager.deployment.name]);
+    const inFlight: Record<string, number> = {};
+    for (const row of inFlightResult.rows) {
+      inFlight[row.type] = row.count;
+    }
+    const batch = selectWithinCaps(result.rows, inFlight, BATCH_SIZE);
+    
+    if (batch.length > 0) {
+      logger.info(`Found ${batch.length} pending ${manager.deployment.name} transactions to process`);
       
-      if (result.rows.length > 0) {
-        logger.info(`Found ${result.rows.length} pending transactions to process`);
+      // Process each transaction through blockchain manager
+      for (const tx of batch) {
+        const walletIndex = manager.selectNextWallet();
         
-        // Process each transaction through blockchain manager
-        for (const tx of result.rows) {
-          const walletIndex = blockchainManager.selectNextWallet();
+        if (walletIndex === -1) {
+          logger.error('No available wallets to process transaction');
+          await markFailed(client, tx.id, 'No available wallets to process transaction');
+        } else {
+          // Queue transaction for processing with selected wallet
+          manager.queueToWallet(walletIndex, tx);
           
-          if (walletIndex === -1) {
-            logger.error('No available wallets to process transaction');
-            await client.query(
-              'UPDATE dino_transaction_queue SET status = $1, retries = retries + 1 WHERE id = $2',
-              ['failed', tx.id]
-            );
-          } else {
-            // Queue transaction for processing with selected wallet
-            blockchainManager.queueToWallet(walletIndex, tx);
-            
-            // Update status to 'processing' to prevent other processes from picking it up
-            await client.query(
-              'UPDATE dino_transaction_queue SET status = $1, wallet_index = $2 WHERE id = $3',
-              ['processing', walletIndex, tx.id]
-            );
+          // Lease the row so no other process picks it up while this one is alive
+          await queueLease.claim(client, [tx.id], walletIndex);
 
-            // Add delay between transactions for the same wallet
-            await new Promise(resolve => setTimeout(resolve, 200));
-          }
+          // Add delay between transactions for the same wallet
+          await new Promise(resolve => setTimeout(resolve, 200));
         }
       }
-      
-      // Commit transaction
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      logger.error('Error processing transaction queue:', error);
-    } finally {
-      client.release();
     }
-  }, 1000); // Check every second
+    
+    // Commit transaction
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error(`Error processing the ${manager.deployment.name} transaction queue:`, error);
+  } finally {
+    client.release();
+  }
 }
 
 /**
@@ -1021,36 +1270,81 @@ async function isHighScoreForLeaderboard(
   return false;
 }
 
-// Create blockchain manager
-const blockchainManager = new BlockchainManager(CONTRACT_ADDRESS, DinoRunnerABI);
+// One blockchain manager per configured deployment
+const blockchainManagers: Map<string, BlockchainManager> = new Map(
+  deploymentRegistry.deployments.map(deployment => [deployment.name, new BlockchainManager(deployment)])
+);
+
+function allWalletStatus(): WalletStatus[] {
+  return Array.from(blockchainManagers.values()).flatMap(manager => manager.getWalletStatus());
+}
+
+function allRpcHealth(): DeploymentRpcHealth[] {
+  return Array.from(blockchainManagers.values()).flatMap(manager => manager.getRpcHealth());
+}
+
+/**
+ * The deployment a ticket's game was started on. Tickets issued before the
+ * registry carry none and belong to the default deployment.
+ * @returns undefined if the deployment is no longer configured
+ */
+function ticketDeployment(claims: GameTicketClaims): Deployment | undefined {
+  return claims.dep ? deploymentRegistry.find(claims.dep) : deploymentRegistry.defaultDeployment;
+}
 
 // Master process setup - handles clustering and load balancing
 if (cluster.isPrimary) {
   logger.info(`Master ${process.pid} is running`);
-  
-  // Initialize blockchain manager in the primary process
-  blockchainManager.initialize().then(() => {
-    // Start processing queue from database in master process only
-    startProcessingQueueFromDB();
-  }).catch(err => {
-    logger.error('Failed to initialize blockchain manager:', err);
-    process.exit(1);
-  });
 
-  // Start transaction watcher in master process
-  blockchainManager.startTransactionWatcher((tx, status, receipt) => {
-    // Update the existing transaction in the database
+  // Workers inherit the session secret from the primary's environment
+  ensureSessionSecret(logger);
+  
+  const managers = Array.from(blockchainManagers.values());
+  logger.info(`Deployments: ${deploymentRegistry.names().join(', ')} (new games go to ${deploymentRegistry.defaultDeployment.name} by default)`);
+  
+  // Initialize every deployment's blockchain manager in the primary process
+  Promise.all(managers.map(manager => manager.initialize())).then(async () => {
+    // Know which wallets can pay before handing them work, and keep workers' status current
+    for (const manager of managers) {
+      manager.setStatusListener(() => publishWalletStatus());
+      await manager.startBalanceMonitor(refill => publishWalletStatus(refill));
+    }
+    
+    // Recover rows stranded in 'processing' by a previous crash, then keep our own leases alive
+    await queueLease.startReclaiming();
+    queueLease.startHeartbeat(() => managers.flatMap(manager => manager.getQueuedTransactionIds()));
+    
+    // Apply wallet-admin changes right away instead of at the next reload
+    process.on('SIGHUP', () => {
+      logger.info('SIGHUP received, reloading wallet pools');
+      for (const manager of managers) {
+        manager.reloadWalletPool().catch(error => {
+          logger.error(`Error reloading the ${manager.deployment.name} wallet pool:`, error);
+        });
+      }
+    });
+    
+    // Confirm sent rows as blocks arrive; the tracker has already updated the row
+    const onConfirmation = (tx: any, { status, receipt, blockNumber, blockHash, reorged }: ConfirmationUpdate) => {
+      broadcastTransactionUpdate({
+        id: tx.id,
+        player_address: tx.player_address,
+        game_id: tx.game_id,
+        type: tx.type,
+        status,
+        hash: tx.hash,
+        score: tx.score,
+        blockNumber,
+        blockHash,
+        reorged
+      });
+      
+      if (status !== 'confirmed' && status !== 'failed') {
+        logger.info(`Transaction ${tx.hash} back to ${status} after a reorg`);
+        return;
+      }
+      
       (async () => {
-        const client = await pool.connect();
-        try {
-          // Just update status of the existing transaction
-          await client.query(
-            `UPDATE dino_transaction_queue 
-            SET status = $1
-            WHERE id = $2`,
-            [status, tx.id]
-          );
-        
         // If Redis is enabled, publish confirmation for workers to broadcast
         if (USE_REDIS && redisClient) {
           await redisClient.publish('tx:confirmation', JSON.stringify({
@@ -1060,7 +1354,8 @@ if (cluster.isPrimary) {
             type: tx.type,
             status,
             hash: tx.hash,
-            score: tx.score
+            score: tx.score,
+            blockNumber
           }));
         }
         
@@ -1068,17 +1363,46 @@ if (cluster.isPrimary) {
         if (analyticsService) {
           analyticsService.trackTransactionConfirmation(tx.hash, status, {
             ...tx,
-            blockNumber: receipt?.blockNumber
+            blockNumber: receipt?.blockNumber ?? blockNumber
           });
         }
         
         logger.info(`Transaction ${tx.hash} confirmed with status ${status}`);
-      } finally {
-        client.release();
-      }
-    })();
+      })().catch(error => {
+        logger.error(`Error publishing confirmation for ${tx.hash}:`, error);
+      });
+    };
+    
+    for (const manager of managers) {
+      manager.startTransactionWatcher(onConfirmation);
+      
+      // Mirror contract events into Postgres
+      manager.startEventIndexer();
+    }
+    
+    // Start processing queue from database in master process only
+    startProcessingQueueFromDB();
+  }).catch(err => {
+    logger.error('Failed to initialize blockchain managers:', err);
+    process.exit(1);
   });
 
+  // Transactions are sent and confirmed here, but the sockets live in the workers
+  broadcastTransactionUpdate = (tx: any) => {
+    for (const worker of Object.values(cluster.workers || {})) {
+      worker?.send({ type: 'transactionUpdate', tx });
+    }
+  };
+
+  // Send wallet status to workers, which broadcast it to clients
+  function publishWalletStatus(refill?: WalletRefill) {
+    const wallets = allWalletStatus();
+    const rpcHealth = allRpcHealth();
+    for (const worker of Object.values(cluster.workers || {})) {
+      worker?.send({ type: 'walletStatus', wallets, rpcHealth, refill });
+    }
+  }
+
   // Fork workers for handling WebSocket connections
   for (let i = 0; i < WORKER_COUNT; i++) {
     cluster.fork({ WORKER_ONLY: 'true' });
@@ -1113,7 +1437,7 @@ if (cluster.isPrimary) {
   const app = express();
   const server = http.createServer(app);
   // When creating the io instance, assign it to the module-level variable:
-  io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(server, {
+  io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(server, {
     cors: {
       origin: process.env.CORS_ORIGIN || '*',
       methods: ['GET', 'POST']
@@ -1122,6 +1446,71 @@ if (cluster.isPrimary) {
     transports: ['websocket', 'polling']
   });
 
+  // Wallet status and transaction updates come from the primary; refills go out to clients right away
+  process.on('message', (message: any) => {
+    if (message?.type === 'transactionUpdate') {
+      broadcastTransactionUpdate(message.tx);
+      return;
+    }
+    if (message?.type !== 'walletStatus') return;
+    sharedWalletStatus = message.wallets;
+    sharedRpcHealth = message.rpcHealth || [];
+    if (message.refill) {
+      broadcastWalletStatus(message.refill);
+    }
+  });
+
+  // Buckets live in Redis when enabled so every worker enforces the same limits
+  const rateLimiter = new RateLimiter(pool, logger, USE_REDIS ? redisClient : null);
+
+  // Refuse banned IPs and connection floods before touching the session store
+  io.use(async (socket, next) => {
+    try {
+      const decision = await rateLimiter.consume('connection', {
+        socketId: socket.id,
+        ip: RateLimiter.getClientIp(socket.handshake)
+      });
+      if (!decision.allowed) {
+        const err: Error & { data?: any } = new Error(decision.code);
+        err.data = {
+          message: decision.code === TEMP_BANNED ? 'Temporarily banned for abuse' : 'Too many connection attempts',
+          retryAfterMs: decision.retryAfterMs
+        };
+        return next(err);
+      }
+      next();
+    } catch (error) {
+      // Fail open - a limiter outage shouldn't take the game down
+      logger.error(`Rate limiter failed for connection ${socket.id}:`, error);
+      next();
+    }
+  });
+
+  // Resume authenticated sessions from the handshake token. Sockets without a
+  // token connect anonymously and must complete client:auth before playing.
+  io.use(async (socket, next) => {
+    const token = socket.handshake.auth?.token;
+    if (!token) {
+      return next();
+    }
+    
+    try {
+      const session = await authService.verifySessionToken(token);
+      if (!session) {
+        const err: Error & { data?: any } = new Error('SESSION_INVALID');
+        err.data = { message: 'Session token is invalid, expired or revoked' };
+        return next(err);
+      }
+      
+      socket.data.playerAddress = session.playerAddress;
+      socket.data.sessionId = session.sessionId;
+      next();
+    } catch (error) {
+      logger.error(`Error verifying session token for ${socket.id}:`, error);
+      next(new Error('SESSION_CHECK_FAILED'));
+    }
+  });
+
   // Connect to Redis if enabled
   if (USE_REDIS) {
     initRedis().catch(err => {
@@ -1141,32 +1530,91 @@ if (cluster.isPrimary) {
     // Add to connected clients map
     connectedClients.set(socket.id, {
       id: socket.id,
-      playerAddress: null,
+      playerAddress: socket.data.playerAddress || null,
+      authenticated: !!socket.data.playerAddress,
       gameId: null,
       connectedAt: sessionStartTime
     });
     
+    // Throttle every event before its handler runs; dropped events get no reply
+    const clientIp = RateLimiter.getClientIp(socket.handshake);
+    socket.use(async ([event], next) => {
+      try {
+        const decision = await rateLimiter.consume(event, {
+          socketId: socket.id,
+          ip: clientIp,
+          playerAddress: socket.data.playerAddress
+        });
+        if (decision.allowed) {
+          return next();
+        }
+        
+        socket.emit('server:error', {
+          code: decision.code,
+          message: decision.code === TEMP_BANNED ? 'Temporarily banned for abuse' : `Rate limit exceeded for ${event}`,
+          retryAfterMs: decision.retryAfterMs
+        });
+        
+        if (decision.code === TEMP_BANNED) {
+          socket.disconnect(true);
+        }
+      } catch (error) {
+        logger.error(`Rate limiter failed for ${socket.id}, allowing ${event}:`, error);
+        next();
+      }
+    });
+    
+    // Resumed session - no need to sign again
+    if (socket.data.playerAddress) {
+      socket.join(`player:${socket.data.playerAddress}`);
+      socket.emit('server:auth', {
+        status: 'resumed',
+        playerAddress: socket.data.playerAddress
+      });
+      logger.info(`Client ${socket.id} resumed session for ${socket.data.playerAddress}`);
+    }
+    
     // Send initial status
     socket.emit('server:status', {
       status: 'connected',
       timestamp: Date.now(),
       pendingTransactions: await getPendingTransactionCount(),
-      walletStatus: blockchainManager.getWalletStatus()
+      walletStatus: currentWalletStatus(),
+      rpcHealth: currentRpcHealth()
     });
     
+    // Issue a sign-in challenge for the wallet to sign
+    socket.on('client:authChallenge', async (data) => {
+      try {
+        const challenge = await authService.createChallenge(data?.playerAddress);
+        
+        socket.emit('server:authChallenge', {
+          status: 'ok',
+          ...challenge
+        });
+      } catch (error) {
+        logger.error(`Error creating auth challenge for ${socket.id}:`, error);
+        socket.emit('server:authChallenge', {
+          status: 'error',
+          message: error instanceof Error ? error.message : 'Failed to create challenge'
+        });
+      }
+    });
+
     // Handle client authentication
     socket.on('client:auth', async (data) => {
       try {
-        const { playerAddress, username } = data;
+        const { playerAddress, username, signature, nonce } = data;
         const normalizedAddress = playerAddress.toLowerCase(); // Normalize address
         
-        // Validate signature (currently bypassed in development)
-        const isValid = true; // validateSignature(normalizedAddress, signature);
+        // Verify the signed challenge
+        const verification = await authService.verifyChallenge(normalizedAddress, nonce, signature);
         
-        if (!isValid) {
+        if (!verification.valid) {
+          logger.warn(`Rejected auth for ${normalizedAddress} on ${socket.id}: ${verification.reason}`);
           socket.emit('server:auth', {
             status: 'error',
-            message: 'Invalid signature'
+            message: `Invalid signature: ${verification.reason}`
           });
           return;
         }
@@ -1176,6 +1624,7 @@ if (cluster.isPrimary) {
         if (clientInfo) {
           clientInfo.playerAddress = normalizedAddress;
           clientInfo.username = username;
+          clientInfo.authenticated = true;
           connectedClients.set(socket.id, clientInfo);
         }
         
@@ -1233,15 +1682,20 @@ if (cluster.isPrimary) {
               logger.info(`Created new player profile for ${normalizedAddress}, username: ${username || 'none'}`);
             }
             
-            // Queue transaction to update name on-chain if needed and username is provided
+            // Queue transactions to update the name on-chain if needed and username is provided,
+            // on every deployment the player's new games may go to
             if (queueNameUpdate && username) {
-              await client.query(
-                `INSERT INTO dino_transaction_queue 
-                (player_address, game_id, type, timestamp, status, username, score) 
-                VALUES ($1, $2, $3, $4, $5, $6, $7) 
-                RETURNING id`,
-                [normalizedAddress, 'profile-update', 'setplayer', Date.now(), 'pending', username, 0]
-              );
+              for (const deployment of deploymentRegistry.deployments.filter(deployment => deployment.acceptsNewGames)) {
+                // Name updates only count against the global budget, but they do count
+                const sponsorship = await sponsorshipPolicy.reserve(client, normalizedAddress, 'setplayer');
+                await client.query(
+                  `INSERT INTO dino_transaction_queue 
+                  (player_address, game_id, type, timestamp, status, username, score, priority, deployment) 
+                  VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
+                  RETURNING id`,
+                  [normalizedAddress, 'profile-update', 'setplayer', Date.now(), sponsorship.sponsored ? 'pending' : 'unsponsored', username, 0, getTransactionPriority('setplayer'), deployment.name]
+                );
+              }
               logger.info(`Player name update queued for ${normalizedAddress}, username: ${username}`);
             }
             
@@ -1258,6 +1712,14 @@ if (cluster.isPrimary) {
           client.release();
         }
         
+        // Bind the verified address to this socket and issue a resumable session
+        if (socket.data.sessionId) {
+          await authService.revokeSession(socket.data.sessionId);
+        }
+        const session = await authService.issueSessionToken(normalizedAddress);
+        socket.data.playerAddress = normalizedAddress;
+        socket.data.sessionId = session.sessionId;
+        
         // Join player-specific room for targeted updates
         socket.join(`player:${normalizedAddress}`);
         
@@ -1270,7 +1732,9 @@ if (cluster.isPrimary) {
         // Send successful authentication response
         socket.emit('server:auth', {
           status: 'authenticated',
-          playerAddress: normalizedAddress
+          playerAddress: normalizedAddress,
+          token: session.token,
+          expiresAt: session.expiresAt
         });
         
         logger.info(`Client ${socket.id} authenticated as ${normalizedAddress}, username: ${username || 'none'}`);
@@ -1284,6 +1748,32 @@ if (cluster.isPrimary) {
       }
     });
 
+    // Revoke the current session token
+    socket.on('client:logout', async () => {
+      try {
+        if (socket.data.sessionId) {
+          await authService.revokeSession(socket.data.sessionId);
+        }
+        if (socket.data.playerAddress) {
+          socket.leave(`player:${socket.data.playerAddress}`);
+        }
+        
+        socket.data.playerAddress = undefined;
+        socket.data.sessionId = undefined;
+        
+        const clientInfo = connectedClients.get(socket.id);
+        if (clientInfo) {
+          clientInfo.playerAddress = null;
+          clientInfo.authenticated = false;
+        }
+        
+        socket.emit('server:auth', { status: 'loggedOut' });
+      } catch (error) {
+        logger.error(`Error logging out ${socket.id}:`, error);
+        socket.emit('server:error', { message: 'Failed to log out' });
+      }
+    });
+
     socket.on('client:checkUsername', async (data) => {
       try {
         const client = await pool.connect();
@@ -1307,22 +1797,20 @@ if (cluster.isPrimary) {
       }
     });
     
-   // Handle game session start
+    // Handle game session start - the server picks the game ID and issues a signed ticket
     socket.on('client:gameStart', async (data) => {
       try {
-        const { gameId, playerAddress } = data;
-
-        const normalizedAddress = playerAddress.toLowerCase();
-        
-        // Basic validation
-        if (!gameId || !normalizedAddress) {
+        // Only trust the address bound to this socket's session
+        const normalizedAddress = socket.data.playerAddress;
+        if (!normalizedAddress) {
           socket.emit('server:error', {
-            message: 'Invalid game start request: missing gameId or playerAddress'
+            message: 'Not authenticated'
           });
           return;
         }
 
-        logger.info(`Game start request: gameId=${gameId}, player=${normalizedAddress}`);
+        const deployment = deploymentRegistry.forNewGame(typeof data?.deployment === 'string' ? data.deployment : undefined);
+        logger.info(`Game start request from player=${normalizedAddress}, deployment=${deployment.name}`);
         
         // Get or create client info
         let clientInfo = connectedClients.get(socket.id);
@@ -1337,139 +1825,84 @@ if (cluster.isPrimary) {
           connectedClients.set(socket.id, clientInfo);
         }
         
-        // Update client info
-        clientInfo.playerAddress = normalizedAddress;
-        clientInfo.gameId = gameId;
-        connectedClients.set(socket.id, clientInfo);
-        
-        // Join game-specific room
-        socket.join(`game:${gameId}`);
-        socket.join(`player:${normalizedAddress}`); // Also join the player-specific room
-        
         // Database operations with timeout protection
         const dbOperationsPromise = (async () => {
-          let client;
+          const client = await pool.connect();
           try {
-            client = await pool.connect();
-            
-            // First check if session exists
+            // Keep the WebSocket session record current
             const sessionResult = await client.query(
-              'SELECT * FROM dino_websocket_sessions WHERE session_id = $1',
-              [socket.id]
+              'UPDATE dino_websocket_sessions SET player_address = $1, status = $2, last_active_at = NOW() WHERE session_id = $3',
+              [normalizedAddress, 'active', socket.id]
             );
-            
-            // Begin transaction
-            await client.query('BEGIN');
-            
-            try {
-              // Insert or update session info
-              if (sessionResult.rowCount === 0) {
-                // Session doesn't exist, insert new record
-                await client.query(
-                  'INSERT INTO dino_websocket_sessions (session_id, player_address, status) VALUES ($1, $2, $3)',
-                  [socket.id, normalizedAddress, 'active']
-                );
-              } else {
-                // Session exists, update it
-                await client.query(
-                  'UPDATE dino_websocket_sessions SET player_address = $1, status = $2, last_active_at = NOW() WHERE session_id = $3',
-                  [normalizedAddress, 'active', socket.id]
-                );
-              }
-              
-              // Check for any existing active game sessions for this player and close them
+            if (sessionResult.rowCount === 0) {
               await client.query(
-                `UPDATE dino_player_sessions 
-                SET end_time = NOW(), completed = false 
-                WHERE player_address = $1 AND end_time IS NULL AND game_id != $2`,
-                [normalizedAddress, gameId]
+                'INSERT INTO dino_websocket_sessions (session_id, player_address, status) VALUES ($1, $2, $3)',
+                [socket.id, normalizedAddress, 'active']
               );
-              
-              // Then create the new game session
-              try {
-                await client.query(
-                  'INSERT INTO dino_player_sessions (player_address, game_id) VALUES ($1, $2)',
-                  [normalizedAddress, gameId]
-                );
-              } catch (err) {
-                logger.warn(`Game session may already exist for player ${normalizedAddress}, game ${gameId}`);
-                
-                // Check if this game session already exists
-                const existingGame = await client.query(
-                  'SELECT * FROM dino_player_sessions WHERE player_address = $1 AND game_id = $2',
-                  [normalizedAddress, gameId]
-                );
-                
-                if (existingGame.rowCount === 0) {
-                  // Unexpected error, rethrow to be caught in outer catch
-                  throw err;
-                }
-              }
-              
-              // Commit transaction
-              await client.query('COMMIT');
-              return true;
-              
-            } catch (innerErr) {
-              // Rollback on error
-              await client.query('ROLLBACK');
-              throw innerErr;
             }
-            
-          } catch (err) {
-            logger.error(`Database error in game start for ${gameId}:`, err);
-            throw err;
           } finally {
-            if (client) client.release();
+            client.release();
           }
-        });
+          
+          return gameSessionService.startGame(normalizedAddress, deployment.name);
+        })();
         
         // Add timeout to database operations
-        const timeoutPromise = new Promise((_, reject) => {
+        const timeoutPromise = new Promise<never>((_, reject) => {
           setTimeout(() => reject(new Error('Database operation timeout')), DB_OPERATIONS_TIMEOUT);
         });
         
-        // Race the database operations against the timeout
+        let game;
         try {
-          await Promise.race([dbOperationsPromise, timeoutPromise]);
+          game = await Promise.race([dbOperationsPromise, timeoutPromise]);
+        } catch (error) {
+          logger.error(`Error starting game for ${normalizedAddress}:`, error);
           
-          // Database operations completed successfully or timed out
-          // Either way, we'll acknowledge the game start to prevent client-side timeout
+          // Without a stored session there is no valid ticket to hand out
           socket.emit('server:gameStart', {
-            status: 'started',
-            gameId,
+            status: 'error',
+            message: 'Failed to start game',
             timestamp: Date.now()
           });
+          return;
+        }
+        
+        // Update client info
+        clientInfo.playerAddress = normalizedAddress;
+        clientInfo.gameId = game.gameId;
+        clientInfo.gameStartTime = game.startedAt;
+        connectedClients.set(socket.id, clientInfo);
+        
+        // Join game-specific room
+        socket.join(`game:${game.gameId}`);
+        socket.join(`player:${normalizedAddress}`); // Also join the player-specific room
+        
+        socket.emit('server:gameStart', {
+          status: 'started',
+          gameId: game.gameId,
+          deployment: game.deployment,
+          ticket: game.ticket,
+          seed: game.seed,
+          startedAt: game.startedAt,
+          expiresAt: game.expiresAt,
+          timestamp: Date.now()
+        });
 
-          // THEN track in analytics AFTER DB operations (even if they failed)
-          if (analyticsService) {
-            analyticsService.trackGameStart({
-              playerAddress: normalizedAddress,
-              gameId
-            });
-            
-            // Identify the player
-            analyticsService.identifyPlayer(normalizedAddress, {
-              first_seen: new Date().toISOString()
-            });
-          }
-          
-          logger.info(`Game ${gameId} started for player ${normalizedAddress}`);
-          
-        } catch (error) {
-          logger.error(`Error starting game ${gameId}:`, error);
-          
-          // Still acknowledge the game start but with a different status
-          // This is better than letting the client time out
-          socket.emit('server:gameStart', {
-            status: 'started',
-            gameId,
-            timestamp: Date.now(),
+        // Track in analytics after the game is stored
+        if (analyticsService) {
+          analyticsService.trackGameStart({
+            playerAddress: normalizedAddress,
+            gameId: game.gameId
           });
           
-          logger.warn(`Game ${gameId} started with warnings for player ${normalizedAddress}`);
+          // Identify the player
+          analyticsService.identifyPlayer(normalizedAddress, {
+            first_seen: new Date().toISOString()
+          });
         }
         
+        logger.info(`Game ${game.gameId} started for player ${normalizedAddress}`);
+        
       } catch (err) {
         logger.error(`Unexpected error in game start handler:`, err);
         
@@ -1483,10 +1916,24 @@ if (cluster.isPrimary) {
     // Handle player jump
     socket.on('client:jump', async (data) => {
       try {
-        const { gameId, playerAddress, height, score } = data;
-        const normalizedAddress = playerAddress.toLowerCase();
+        const { gameId, ticket, height, score, idempotencyKey } = data;
+        const normalizedAddress = socket.data.playerAddress;
         const clientInfo = connectedClients.get(socket.id);
         
+        if (!normalizedAddress) {
+          socket.emit('server:error', {
+            message: 'Not authenticated'
+          });
+          return;
+        }
+        
+        if (idempotencyKey !== undefined && !idempotencyStore.isValidKey(idempotencyKey)) {
+          socket.emit('server:error', {
+            message: 'Invalid idempotency key'
+          });
+          return;
+        }
+        
         // More permissive check
         if (!clientInfo) {
           socket.emit('server:error', {
@@ -1495,6 +1942,23 @@ if (cluster.isPrimary) {
           return;
         }
         
+        // Jumps are only accepted for a game the server started
+        const claims = gameSessionService.verifyTicket(ticket, normalizedAddress, gameId);
+        if (!claims) {
+          socket.emit('server:error', {
+            message: 'Invalid or expired game ticket'
+          });
+          return;
+        }
+        
+        const deployment = ticketDeployment(claims);
+        if (!deployment) {
+          socket.emit('server:error', {
+            message: 'The game\'s deployment is no longer configured'
+          });
+          return;
+        }
+        
         // Update client info if needed
         if (clientInfo.playerAddress !== normalizedAddress) {
           clientInfo.playerAddress = normalizedAddress;
@@ -1507,30 +1971,68 @@ if (cluster.isPrimary) {
         
         // First add to database
         let txId = null;
+        let sponsored = false;
+        let acknowledgement: JumpAcknowledgement | null = null;
         const client = await pool.connect();
         try {
+          await client.query('BEGIN');
+          
+          // A resent jump gets the original acknowledgement and is not counted again
+          if (idempotencyKey) {
+            const original = await idempotencyStore.claim<JumpAcknowledgement>(client, normalizedAddress, idempotencyKey, TX_TYPE_JUMP);
+            if (original) {
+              await client.query('ROLLBACK');
+              socket.emit('server:jump', { ...original, duplicate: true, timestamp: Date.now() });
+              return;
+            }
+          }
+          
+          // Count the jump against the open game
+          const isOpen = await gameSessionService.recordJump(client, claims, height);
+          if (!isOpen) {
+            await client.query('ROLLBACK');
+            socket.emit('server:error', {
+              message: 'Game is not active'
+            });
+            return;
+          }
+          
+          // Over-budget jumps are still recorded, just never sent on-chain
+          const sponsorship = await sponsorshipPolicy.reserve(client, normalizedAddress, TX_TYPE_JUMP);
+          sponsored = sponsorship.sponsored;
+          
           // Add transaction to queue
           const result = await client.query(
             `INSERT INTO dino_transaction_queue 
-            (player_address, game_id, type, score, height, timestamp, status) 
-            VALUES ($1, $2, $3, $4, $5, $6, $7) 
+            (player_address, game_id, type, score, height, timestamp, status, priority, deployment) 
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
             RETURNING id`,
-            [playerAddress, gameId, TX_TYPE_JUMP, score, height, Date.now(), 'pending']
+            [normalizedAddress, gameId, TX_TYPE_JUMP, score, height, Date.now(), sponsored ? 'pending' : 'unsponsored', getTransactionPriority(TX_TYPE_JUMP), deployment.name]
           );
           
           txId = result.rows[0].id;
           
+          acknowledgement = { status: 'recorded', txId, gameId, sponsored };
+          if (idempotencyKey) {
+            await idempotencyStore.complete(client, normalizedAddress, idempotencyKey, acknowledgement);
+          }
+          
+          await client.query('COMMIT');
+        } catch (dbError) {
+          await client.query('ROLLBACK');
+          throw dbError;
         } finally {
           client.release();
         }
           
           // Acknowledge jump recorded
-          socket.emit('server:jump', {
-            status: 'recorded',
-            txId,
-            gameId,
-            timestamp: Date.now()
-          });
+          socket.emit('server:jump', { ...acknowledgement!, timestamp: Date.now() });
+          
+          // Let the player know their quota ran out
+          if (!sponsored) {
+            const quota = await sponsorshipPolicy.getQuota(normalizedAddress);
+            socket.emit('server:quota', { ...quota, timestamp: Date.now() });
+          }
           
         } catch (err) {
           logger.error(`Error processing jump: ${err}`);
@@ -1543,10 +2045,24 @@ if (cluster.isPrimary) {
     // Handle game over
     socket.on('client:gameOver', async (data) => {
       try {
-        const { gameId, playerAddress, finalScore, distance } = data;
-        const normalizedAddress = playerAddress.toLowerCase();
+        const { gameId, ticket, finalScore, distance, replay: replayLog, idempotencyKey } = data;
+        const normalizedAddress = socket.data.playerAddress;
         const clientInfo = connectedClients.get(socket.id);
         
+        if (!normalizedAddress) {
+          socket.emit('server:error', {
+            message: 'Not authenticated'
+          });
+          return;
+        }
+        
+        if (idempotencyKey !== undefined && !idempotencyStore.isValidKey(idempotencyKey)) {
+          socket.emit('server:error', {
+            message: 'Invalid idempotency key'
+          });
+          return;
+        }
+        
         // More permissive check
         if (!clientInfo) {
           socket.emit('server:error', {
@@ -1555,9 +2071,22 @@ if (cluster.isPrimary) {
           return;
         }
         
-        // Calculate game duration if we have a start time
-        const gameStartTime = clientInfo.gameStartTime || clientInfo.connectedAt;
-        const gameDuration = gameStartTime ? Date.now() - gameStartTime : 0;
+        // Game over is only accepted once, for a game the server started
+        const claims = gameSessionService.verifyTicket(ticket, normalizedAddress, gameId);
+        if (!claims) {
+          socket.emit('server:error', {
+            message: 'Invalid or expired game ticket'
+          });
+          return;
+        }
+        
+        const deployment = ticketDeployment(claims);
+        if (!deployment) {
+          socket.emit('server:error', {
+            message: 'The game\'s deployment is no longer configured'
+          });
+          return;
+        }
         
         // Update client info
         clientInfo.playerAddress = normalizedAddress;
@@ -1569,7 +2098,11 @@ if (cluster.isPrimary) {
         // DB operations first - separate from blockchain operations
         let txId = null;
         let jumpsCount = 0;
+        let gameDuration = 0;
         let isHighScore = false;
+        let validation: ScoreValidation | null = null;
+        let replay: ReplayResult | null = null;
+        let acknowledgement: GameOverAcknowledgement | null = null;
         
         const client = await pool.connect();
         try {
@@ -1577,18 +2110,36 @@ if (cluster.isPrimary) {
           await client.query('BEGIN');
           
           try {
-            // 1. Add transaction to queue table
-            const result = await client.query(
-              `INSERT INTO dino_transaction_queue 
-               (player_address, game_id, type, score, timestamp, status) 
-               VALUES ($1, $2, $3, $4, $5, $6) 
-               RETURNING id`,
-              [playerAddress, gameId, TX_TYPE_GAME_OVER, finalScore, Date.now(), 'pending']
-            );
+            // A resent game over gets the original acknowledgement instead of a used-ticket error
+            if (idempotencyKey) {
+              const original = await idempotencyStore.claim<GameOverAcknowledgement>(client, normalizedAddress, idempotencyKey, TX_TYPE_GAME_OVER);
+              if (original) {
+                await client.query('ROLLBACK');
+                socket.emit('server:gameOver', { ...original, duplicate: true, timestamp: Date.now() });
+                return;
+              }
+            }
             
-            txId = result.rows[0].id;
+            // 1. Lock the game this ticket belongs to
+            const openGame = await gameSessionService.lockOpenGame(client, claims);
+            if (!openGame) {
+              await client.query('ROLLBACK');
+              socket.emit('server:error', {
+                message: 'Game ticket already used or expired'
+              });
+              return;
+            }
+            jumpsCount = openGame.jumpsCount;
+            gameDuration = Date.now() - openGame.startedAt;
+            
+            // 2. Check the result is plausible for the server-side time played
+            validation = validateGameResult({ finalScore, durationMs: gameDuration, jumpsCount });
+            const accepted = validation.verdict !== 'rejected';
             
-            // 2. Record game over event
+            // 3. Consume the ticket
+            await gameSessionService.completeGame(client, claims, finalScore, distance, accepted);
+            
+            // 4. Record game over event, including the validation outcome
             await client.query(
               `INSERT INTO dino_game_events 
                (game_id, player_address, event_type, event_data) 
@@ -1596,11 +2147,43 @@ if (cluster.isPrimary) {
               [gameId, normalizedAddress, 'gameover', JSON.stringify({ 
                 finalScore, 
                 distance, 
-                duration: gameDuration 
+                duration: gameDuration,
+                jumpsCount,
+                verdict: validation.verdict
               })]
             );
             
-            // 3. Check if this is a high score
+            if (validation.verdict !== 'ok') {
+              await client.query(
+                `INSERT INTO dino_game_events 
+                 (game_id, player_address, event_type, event_data) 
+                 VALUES ($1, $2, $3, $4)`,
+                [gameId, normalizedAddress, `score_${validation.verdict}`, JSON.stringify({ 
+                  finalScore, 
+                  duration: gameDuration,
+                  jumpsCount,
+                  maxPlausibleScore: validation.maxPlausibleScore,
+                  reasons: validation.reasons
+                })]
+              );
+              logger.warn(`Game ${gameId} by ${normalizedAddress} ${validation.verdict}: ${validation.reasons.join('; ')}`);
+            }
+            
+            // 5. Only plausible results go on-chain, and only while the sponsorship budget allows
+            if (accepted) {
+              const sponsorship = await sponsorshipPolicy.reserve(client, normalizedAddress, TX_TYPE_GAME_OVER);
+              const result = await client.query(
+                `INSERT INTO dino_transaction_queue 
+                 (player_address, game_id, type, score, timestamp, status, priority, deployment) 
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
+                 RETURNING id`,
+                [normalizedAddress, gameId, TX_TYPE_GAME_OVER, finalScore, Date.now(), sponsorship.sponsored ? 'pending' : 'unsponsored', getTransactionPriority(TX_TYPE_GAME_OVER), deployment.name]
+              );
+              
+              txId = result.rows[0].id;
+            }
+            
+            // 6. Check if this is a high score
             const playerBestScore = await client.query(
               `SELECT MAX(score) as best_score 
                FROM dino_leaderboard 
@@ -1618,10 +2201,27 @@ if (cluster.isPrimary) {
             
             const numericScore = typeof finalScore === 'string' ? parseInt(finalScore, 10) : finalScore;
 
-            if (isPersonalBest) {
+            // Flagged and rejected results never reach the leaderboard
+            if (isPersonalBest && validation.verdict === 'ok') {
               isHighScore = await isHighScoreForLeaderboard(client, numericScore, normalizedAddress);
             }
 
+            // Leaderboard scores must replay to the same result from the server's seed
+            if (isHighScore) {
+              replay = verifyReplay(openGame.seed, replayLog, numericScore, maxFramesForDuration(gameDuration));
+
+              if (!replay.verified) {
+                await client.query(
+                  `INSERT INTO dino_replay_reviews 
+                   (game_id, player_address, claimed_score, replay_score, reason, run_seed, input_log) 
+                   VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                  [gameId, normalizedAddress, numericScore, replay.replayScore, replay.reason, openGame.seed, JSON.stringify(replayLog ?? null)]
+                );
+                logger.warn(`Game ${gameId} by ${normalizedAddress} sent for review: ${replay.reason}`);
+                isHighScore = false;
+              }
+            }
+
             if (isHighScore) {
               // Check if player already has a leaderboard entry
               const existingEntry = await client.query(
@@ -1636,7 +2236,8 @@ if (cluster.isPrimary) {
                 if (finalScore > currentHighScore) {
                   await client.query(
                     `UPDATE dino_leaderboard 
-                     SET score = $1, game_id = $2, achieved_at = NOW() 
+                     SET score = $1, game_id = $2, achieved_at = NOW(), replay_verified = true,
+                         verified_on_chain = false, tx_hash = NULL
                      WHERE player_address = $3`,
                     [finalScore, gameId, normalizedAddress]
                   );
@@ -1645,8 +2246,8 @@ if (cluster.isPrimary) {
                 // New leaderboard entry
                 await client.query(
                   `INSERT INTO dino_leaderboard 
-                   (player_address, score, game_id) 
-                   VALUES ($1, $2, $3)`,
+                   (player_address, score, game_id, replay_verified) 
+                   VALUES ($1, $2, $3, true)`,
                   [normalizedAddress, finalScore, gameId]
                 );
                 
@@ -1662,6 +2263,20 @@ if (cluster.isPrimary) {
               logger.info(`Updated ${normalizedAddress} leaderboard entry with new high score ${finalScore}`);
             }
             
+            // 7. Keep the acknowledgement for resends of this game over
+            acknowledgement = {
+              status: validation.verdict === 'rejected' ? 'rejected' : 'recorded',
+              verdict: validation.verdict,
+              txId,
+              gameId,
+              finalScore,
+              isHighScore,
+              underReview: replay !== null && !replay.verified
+            };
+            if (idempotencyKey) {
+              await idempotencyStore.complete(client, normalizedAddress, idempotencyKey, acknowledgement);
+            }
+            
             // Commit database transaction
             await client.query('COMMIT');
           } catch (dbError) {
@@ -1674,14 +2289,7 @@ if (cluster.isPrimary) {
         }
           
           // Acknowledge game over
-          socket.emit('server:gameOver', {
-            status: 'recorded',
-            txId,
-            gameId,
-            finalScore,
-            isHighScore,
-            timestamp: Date.now()
-          });
+          socket.emit('server:gameOver', { ...acknowledgement!, timestamp: Date.now() });
           
         } catch (err) {
           logger.error(`Error processing game over: ${err}`);
@@ -1691,6 +2299,27 @@ if (cluster.isPrimary) {
         }
       });
     
+    // Remaining sponsored transactions for the authenticated player
+    socket.on('client:getQuota', async () => {
+      const normalizedAddress = socket.data.playerAddress;
+      if (!normalizedAddress) {
+        socket.emit('server:error', {
+          message: 'Not authenticated'
+        });
+        return;
+      }
+      
+      try {
+        const quota = await sponsorshipPolicy.getQuota(normalizedAddress);
+        socket.emit('server:quota', { ...quota, timestamp: Date.now() });
+      } catch (err) {
+        logger.error(`Error fetching quota for ${normalizedAddress}: ${err}`);
+        socket.emit('server:error', {
+          message: 'Failed to fetch quota'
+        });
+      }
+    });
+    
     // Handle leaderboard requests
     socket.on('client:getLeaderboard', async () => {
       try {
@@ -1745,15 +2374,8 @@ if (cluster.isPrimary) {
               ['disconnected', socket.id]
             );
             
-            // If there was an active game, mark it as incomplete
-            if (clientInfo.gameId && clientInfo.playerAddress) {
-              await client.query(
-                `UPDATE dino_player_sessions 
-                 SET end_time = NOW(), completed = false 
-                 WHERE game_id = $1 AND player_address = $2 AND end_time IS NULL`,
-                [clientInfo.gameId, clientInfo.playerAddress.toLowerCase()]
-              );
-            }
+            // An active game stays open until its ticket expires, so a jump or
+            // game over resent after reconnecting is still recorded
           } finally {
             client.release();
           }
@@ -0,0 +1,452 @@
+// server/src/nonce-manager.ts
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import os from 'os';
+import { Pool } from 'pg';
+import { createClient } from 'redis';
+import { Logger } from 'winston';
+
+dotenv.config();
+
+// Configurable constants
+const NONCE_STORE = process.env.NONCE_STORE === 'redis' ? 'redis' : 'postgres';
+const NONCE_STUCK_MS = parseInt(process.env.NONCE_STUCK_MS || '120000'); // 2 minutes in the mempool before replacing
+const NONCE_GAP_GRACE_MS = parseInt(process.env.NONCE_GAP_GRACE_MS || '60000'); // reserved nonce may be unused this long
+const NONCE_FEE_BUMP_PERCENT = parseInt(process.env.NONCE_FEE_BUMP_PERCENT || '125'); // nodes need at least 110
+const NONCE_MAX_REPLACEMENTS = parseInt(process.env.NONCE_MAX_REPLACEMENTS || '3'); // then cancel instead
+const NONCE_MAX_FILLS_PER_CHECK = parseInt(process.env.NONCE_MAX_FILLS_PER_CHECK || '10');
+const NONCE_KEY_PREFIX = 'nonce';
+const CANCEL_GAS = BigInt(21000);
+
+export type NonceState = {
+  address: string;
+  latest: bigint;   // mined transactions
+  pending: bigint;  // mined plus contiguous mempool transactions
+  next: bigint | null; // next nonce the store will hand out
+  gaps: bigint[];   // reserved nonces whose transaction the node doesn't know
+};
+
+export type NonceResolution = {
+  nonce: bigint;
+  action: 'replaced' | 'cancelled';
+  hash: string;
+  previousHash: string | null; // what the queue row may still point at
+  txId: number | null;
+};
+
+type Fees = {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+};
+
+interface NonceStore {
+  /**
+   * Hand out the next nonce, never below the floor
+   */
+  reserve(address: string, floor: bigint): Promise<bigint>;
+
+  /**
+   * Give a nonce back if nothing was reserved after it
+   * @returns Whether the counter moved back
+   */
+  release(address: string, nonce: bigint): Promise<boolean>;
+
+  /**
+   * Next nonce without reserving it
+   */
+  peek(address: string): Promise<bigint | null>;
+}
+
+/**
+ * Counters in dino_wallet_nonces, shared by every process using the database
+ */
+class PostgresNonceStore implements NonceStore {
+  private pool: Pool;
+  private chainId: number;
+
+  constructor(pool: Pool, chainId: number) {
+    this.pool = pool;
+    this.chainId = chainId;
+  }
+
+  async reserve(address: string, floor: bigint): Promise<bigint> {
+    const result = await this.pool.query(
+      `INSERT INTO dino_wallet_nonces (chain_id, address, next_nonce) VALUES ($3, $1, $2::bigint + 1)
+       ON CONFLICT (chain_id, address) DO UPDATE
+       SET next_nonce = GREATEST(dino_wallet_nonces.next_nonce, $2::bigint) + 1, updated_at = NOW()
+       RETURNING next_nonce - 1 AS nonce`,
+      [address, floor.toString(), this.chainId]
+    );
+    return BigInt(result.rows[0].nonce);
+  }
+
+  async release(address: string, nonce: bigint): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE dino_wallet_nonces SET next_nonce = $2, updated_at = NOW()
+       WHERE chain_id = $3 AND address = $1 AND next_nonce = $2::bigint + 1`,
+      [address, nonce.toString(), this.chainId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  async peek(address: string): Promise<bigint | null> {
+    const result = await this.pool.query(
+      'SELECT next_nonce FROM dino_wallet_nonces WHERE chain_id = $2 AND address = $1',
+      [address, this.chainId]
+    );
+    return result.rows.length > 0 ? BigInt(result.rows[0].next_nonce) : null;
+  }
+}
+
+// Raise to the floor and take one in a single step
+const RESERVE_SCRIPT = `
+local next = tonumber(redis.call('GET', KEYS[1]) or '0')
+local floor = tonumber(ARGV[1])
+if next < floor then next = floor end
+redis.call('SET', KEYS[1], tostring(next + 1))
+return tostring(next)
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == tostring(tonumber(ARGV[1]) + 1) then
+  redis.call('SET', KEYS[1], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Counters shared through Redis
+ */
+class RedisNonceStore implements NonceStore {
+  private redisClient: any;
+  private chainId: number;
+
+  constructor(redisClient: any, chainId: number) {
+    this.redisClient = redisClient;
+    this.chainId = chainId;
+  }
+
+  private key(address: string): string {
+    return `${NONCE_KEY_PREFIX}:${this.chainId}:${address}`;
+  }
+
+  async reserve(address: string, floor: bigint): Promise<bigint> {
+    const nonce = await this.redisClient.eval(RESERVE_SCRIPT, {
+      keys: [this.key(address)],
+      arguments: [floor.toString()]
+    });
+    return BigInt(nonce);
+  }
+
+  async release(address: string, nonce: bigint): Promise<boolean> {
+    const released = await this.redisClient.eval(RELEASE_SCRIPT, {
+      keys: [this.key(address)],
+      arguments: [nonce.toString()]
+    });
+    return Number(released) === 1;
+  }
+
+  async peek(address: string): Promise<bigint | null> {
+    const next = await this.redisClient.get(this.key(address));
+    return next !== null ? BigInt(next) : null;
+  }
+}
+
+/**
+ * Nonces for the relay wallets, shared by the relay and the recovery server so
+ * they never sign two transactions with the same nonce. Counters live in
+ * Postgres (or Redis with NONCE_STORE=redis); every reservation is recorded in
+ * dino_nonce_reservations so dropped and stuck transactions can be found and
+ * replaced later. Nonces are per chain, so the same wallet can serve
+ * deployments on several chains.
+ */
+export class NonceManager {
+  readonly ownerId: string;
+  readonly chainId: number;
+  private pool: Pool;
+  private logger: Logger;
+  private publicClient: any;
+  private store: NonceStore;
+  private redisClient: any = null;
+  private localNonces: Map<string, bigint> = new Map(); // used while the store is unreachable
+
+  /**
+   * @param role Short name of the sending process, recorded with each reservation
+   */
+  constructor(pool: Pool, logger: Logger, publicClient: any, role: string) {
+    this.pool = pool;
+    this.logger = logger;
+    this.publicClient = publicClient;
+    this.chainId = publicClient.chain.id;
+    this.ownerId = `${role}:${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+    if (NONCE_STORE === 'redis') {
+      this.redisClient = createClient({ url: process.env.REDIS_URL });
+      this.redisClient.on('error', (err: any) => logger.error('Nonce store Redis error', err));
+      this.store = new RedisNonceStore(this.redisClient, this.chainId);
+    } else {
+      this.store = new PostgresNonceStore(pool, this.chainId);
+    }
+  }
+
+  /**
+   * Connect to the nonce store if it needs a connection
+   */
+  async connect() {
+    if (this.redisClient && !this.redisClient.isOpen) {
+      await this.redisClient.connect();
+      this.logger.info('Nonce store connected to Redis');
+    }
+  }
+
+  /**
+   * Reserve the next nonce for a wallet
+   * @param txId Queue row the nonce is for, if any
+   */
+  async reserve(address: string, txId: number | null = null): Promise<bigint> {
+    address = address.toLowerCase();
+
+    let floor = BigInt(0);
+    try {
+      floor = BigInt(await this.publicClient.getTransactionCount({ address, blockTag: 'pending' }));
+    } catch (error) {
+      this.logger.warn(`Could not read pending nonce for ${address}, relying on the nonce store`);
+    }
+
+    let nonce: bigint;
+    try {
+      nonce = await this.store.reserve(address, floor);
+    } catch (error) {
+      // Same as before the shared store: keep going on what this process knows
+      this.logger.error(`Nonce store unavailable for ${address}, using local nonce:`, error);
+      const local = this.localNonces.get(address) || BigInt(0);
+      nonce = local > floor ? local : floor;
+    }
+    this.localNonces.set(address, nonce + BigInt(1));
+
+    try {
+      await this.pool.query(
+        `INSERT INTO dino_nonce_reservations (chain_id, address, nonce, owner, tx_id)
+         VALUES ($5, $1, $2, $3, $4)
+         ON CONFLICT (chain_id, address, nonce) DO UPDATE
+         SET owner = EXCLUDED.owner, tx_id = EXCLUDED.tx_id, hash = NULL, status = 'reserved',
+             replacements = 0, created_at = NOW(), updated_at = NOW()`,
+        [address, nonce.toString(), this.ownerId, txId, this.chainId]
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record nonce ${nonce} for ${address}:`, error);
+    }
+
+    return nonce;
+  }
+
+  /**
+   * Record the transaction sent with a reserved nonce
+   */
+  async markSent(address: string, nonce: bigint, hash: string) {
+    try {
+      await this.pool.query(
+        `UPDATE dino_nonce_reservations SET hash = $3, status = 'sent', updated_at = NOW()
+         WHERE chain_id = $4 AND address = $1 AND nonce = $2`,
+        [address.toLowerCase(), nonce.toString(), hash, this.chainId]
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record hash for nonce ${nonce} of ${address}:`, error);
+    }
+  }
+
+  /**
+   * Give back a nonce whose transaction never reached the network. If later
+   * nonces were already handed out it stays a gap until the next check fills it.
+   */
+  async release(address: string, nonce: bigint) {
+    address = address.toLowerCase();
+
+    let rolledBack = false;
+    try {
+      rolledBack = await this.store.release(address, nonce);
+    } catch (error) {
+      this.logger.error(`Failed to release nonce ${nonce} for ${address}:`, error);
+    }
+    if (this.localNonces.get(address) === nonce + BigInt(1)) {
+      this.localNonces.set(address, nonce);
+    }
+
+    try {
+      await this.pool.query(
+        `UPDATE dino_nonce_reservations SET status = 'released', updated_at = NOW()
+         WHERE chain_id = $3 AND address = $1 AND nonce = $2 AND status = 'reserved'`,
+        [address, nonce.toString(), this.chainId]
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record released nonce ${nonce} for ${address}:`, error);
+    }
+
+    if (!rolledBack) {
+      this.logger.warn(`Nonce ${nonce} of ${address} released behind later reservations, leaving a gap`);
+    }
+  }
+
+  /**
+   * Compare the store with the chain's latest and pending counts
+   */
+  async getNonceState(address: string): Promise<NonceState> {
+    address = address.toLowerCase();
+
+    const [latest, pending] = await Promise.all([
+      this.publicClient.getTransactionCount({ address, blockTag: 'latest' }),
+      this.publicClient.getTransactionCount({ address, blockTag: 'pending' })
+    ]).then(counts => counts.map(count => BigInt(count)));
+
+    const next = await this.store.peek(address).catch(() => this.localNonces.get(address) ?? null);
+
+    // Nonces from the pending count up are either missing or queued behind a
+    // missing one; queued transactions run once the hole is filled
+    const gaps: bigint[] = [];
+    if (next !== null) {
+      for (let nonce = pending; nonce < next && gaps.length < NONCE_MAX_FILLS_PER_CHECK; nonce++) {
+        const reservation = await this.getReservation(address, nonce);
+        if (reservation?.hash && await this.getSentTransaction(reservation.hash)) continue;
+        gaps.push(nonce);
+      }
+    }
+
+    return { address, latest, pending, next, gaps };
+  }
+
+  /**
+   * Replace a transaction stuck at the wallet's first unmined nonce with the
+   * same call at higher fees (or cancel it after NONCE_MAX_REPLACEMENTS), and
+   * fill nonce gaps with zero-value self transfers. The caller must not send
+   * from the wallet while this runs.
+   */
+  async resolveStuck(walletClient: any): Promise<NonceResolution[]> {
+    const address = walletClient.account.address.toLowerCase();
+    const state = await this.getNonceState(address);
+    const resolutions: NonceResolution[] = [];
+
+    if (state.pending > state.latest) {
+      const reservation = await this.getReservation(address, state.latest);
+      if (reservation?.hash && Date.now() - new Date(reservation.updated_at).getTime() > NONCE_STUCK_MS) {
+        const resolution = reservation.replacements < NONCE_MAX_REPLACEMENTS
+          ? await this.replace(walletClient, state.latest, reservation)
+          : await this.cancel(walletClient, state.latest, reservation);
+        resolutions.push(resolution);
+      }
+    }
+
+    for (const nonce of state.gaps) {
+      const reservation = await this.getReservation(address, nonce);
+      if (!reservation) {
+        this.logger.warn(`No reservation recorded for nonce ${nonce} of ${address}, not filling`);
+        break;
+      }
+
+      // A fresh reservation may still be on its way to the mempool
+      const since = reservation.status === 'released' ? 0 : new Date(reservation.updated_at).getTime();
+      if (Date.now() - since < NONCE_GAP_GRACE_MS) break;
+
+      resolutions.push(await this.cancel(walletClient, nonce, reservation));
+    }
+
+    return resolutions;
+  }
+
+  private async getReservation(address: string, nonce: bigint) {
+    const result = await this.pool.query(
+      'SELECT * FROM dino_nonce_reservations WHERE chain_id = $3 AND address = $1 AND nonce = $2',
+      [address, nonce.toString(), this.chainId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Current network fees, or the previous fees bumped by NONCE_FEE_BUMP_PERCENT if higher
+   */
+  private async bumpFees(previous: Fees | null): Promise<Fees> {
+    const bump = (value?: bigint | null) => value ? value * BigInt(NONCE_FEE_BUMP_PERCENT) / BigInt(100) : BigInt(0);
+    const max = (a: bigint, b: bigint) => a > b ? a : b;
+
+    if (previous?.gasPrice && !previous.maxFeePerGas) {
+      const gasPrice = BigInt(await this.publicClient.getGasPrice());
+      return { gasPrice: max(gasPrice, bump(previous.gasPrice)) };
+    }
+
+    const current = await this.publicClient.estimateFeesPerGas();
+    const maxPriorityFeePerGas = max(BigInt(current.maxPriorityFeePerGas), bump(previous?.maxPriorityFeePerGas));
+    const maxFeePerGas = max(max(BigInt(current.maxFeePerGas), bump(previous?.maxFeePerGas)), maxPriorityFeePerGas);
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  private async getSentTransaction(hash: string | null) {
+    if (!hash) return null;
+    try {
+      return await this.publicClient.getTransaction({ hash });
+    } catch (error) {
+      return null; // dropped from the mempool
+    }
+  }
+
+  private async replace(walletClient: any, nonce: bigint, reservation: any): Promise<NonceResolution> {
+    const original = await this.getSentTransaction(reservation.hash);
+    if (!original) {
+      return this.cancel(walletClient, nonce, reservation);
+    }
+
+    const fees = await this.bumpFees(original);
+    const hash = await walletClient.sendTransaction({
+      account: walletClient.account,
+      chain: walletClient.chain,
+      to: original.to,
+      data: original.input,
+      value: original.value,
+      gas: original.gas,
+      nonce: Number(nonce),
+      ...fees
+    });
+
+    await this.pool.query(
+      `UPDATE dino_nonce_reservations
+       SET hash = $3, replacements = replacements + 1, updated_at = NOW()
+       WHERE chain_id = $4 AND address = $1 AND nonce = $2`,
+      [reservation.address, nonce.toString(), hash, this.chainId]
+    );
+
+    this.logger.warn(`Replaced stuck transaction ${reservation.hash} at nonce ${nonce} of ${reservation.address} with ${hash}`);
+    return { nonce, action: 'replaced', hash, previousHash: reservation.hash, txId: reservation.tx_id };
+  }
+
+  private async cancel(walletClient: any, nonce: bigint, reservation: any): Promise<NonceResolution> {
+    const original = await this.getSentTransaction(reservation.hash);
+    const fees = await this.bumpFees(original);
+    const hash = await walletClient.sendTransaction({
+      account: walletClient.account,
+      chain: walletClient.chain,
+      to: walletClient.account.address,
+      value: BigInt(0),
+      gas: CANCEL_GAS,
+      nonce: Number(nonce),
+      ...fees
+    });
+
+    await this.pool.query(
+      `UPDATE dino_nonce_reservations SET hash = $3, status = 'cancelled', updated_at = NOW()
+       WHERE chain_id = $4 AND address = $1 AND nonce = $2`,
+      [reservation.address, nonce.toString(), hash, this.chainId]
+    );
+
+    this.logger.warn(`Cancelled nonce ${nonce} of ${reservation.address} (was ${reservation.status}${reservation.hash ? ` ${reservation.hash}` : ''}) with ${hash}`);
+    return { nonce, action: 'cancelled', hash, previousHash: reservation.hash, txId: reservation.tx_id };
+  }
+
+  /**
+   * Close the store connection
+   */
+  async close() {
+    if (this.redisClient?.isOpen) {
+      await this.redisClient.quit();
+    }
+  }
+}
@@ -0,0 +1,152 @@
+// server/src/queue-lease.ts
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import os from 'os';
+import { Pool, PoolClient } from 'pg';
+import { Logger } from 'winston';
+
+dotenv.config();
+
+// Configurable constants
+const QUEUE_LEASE_MS = parseInt(process.env.QUEUE_LEASE_MS || '300000'); // 5 minutes
+const QUEUE_HEARTBEAT_INTERVAL = parseInt(process.env.QUEUE_HEARTBEAT_INTERVAL || '30000'); // 30s
+const QUEUE_RECLAIM_INTERVAL = parseInt(process.env.QUEUE_RECLAIM_INTERVAL || '60000'); // 1 minute
+
+/**
+ * Lease-based claiming for dino_transaction_queue. A process that moves rows to
+ * 'processing' owns them only until lease_expires_at, and keeps the lease alive
+ * with heartbeats while the rows sit in its memory. Rows whose owner died are
+ * put back to 'pending' once the lease runs out.
+ */
+export class QueueLeaseManager {
+  readonly ownerId: string;
+  private pool: Pool;
+  private logger: Logger;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private reclaimInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * @param role Short name of the claiming process, used in the owner ID
+   */
+  constructor(pool: Pool, logger: Logger, role: string) {
+    this.pool = pool;
+    this.logger = logger;
+    this.ownerId = `${role}:${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  /**
+   * Claim rows the caller has locked, moving them to 'processing'
+   * @param walletIndex Wallet the rows were assigned to, if already known
+   */
+  async claim(client: PoolClient, ids: number[], walletIndex: number | null = null): Promise<void> {
+    if (ids.length === 0) return;
+
+    await client.query(
+      `UPDATE dino_transaction_queue
+       SET status = 'processing',
+           wallet_index = COALESCE($2, wallet_index),
+           lease_owner = $3,
+           lease_expires_at = NOW() + $4 * INTERVAL '1 millisecond',
+           heartbeat_at = NOW()
+       WHERE id = ANY($1)`,
+      [ids, walletIndex, this.ownerId, QUEUE_LEASE_MS]
+    );
+  }
+
+  /**
+   * Extend the lease on rows this process still holds
+   */
+  async heartbeat(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE dino_transaction_queue
+         SET heartbeat_at = NOW(), lease_expires_at = NOW() + $3 * INTERVAL '1 millisecond'
+         WHERE id = ANY($1) AND lease_owner = $2 AND status = 'processing'`,
+        [ids, this.ownerId, QUEUE_LEASE_MS]
+      );
+
+      const renewed = result.rowCount || 0;
+      if (renewed < ids.length) {
+        this.logger.warn(`Lease heartbeat renewed ${renewed} of ${ids.length} held transactions`);
+      }
+      return renewed;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Put 'processing' rows with an expired (or missing) lease back to 'pending'
+   */
+  async reclaimExpired(): Promise<number[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE dino_transaction_queue
+         SET status = 'pending',
+             retries = retries + 1,
+             wallet_index = NULL,
+             lease_owner = NULL,
+             lease_expires_at = NULL,
+             heartbeat_at = NULL
+         WHERE status = 'processing'
+         AND (lease_expires_at IS NULL OR lease_expires_at < NOW())
+         RETURNING id`
+      );
+
+      const ids = result.rows.map(row => row.id);
+      if (ids.length > 0) {
+        this.logger.warn(`Reclaimed ${ids.length} transactions with expired leases: ${ids.join(', ')}`);
+      }
+      return ids;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Keep leases alive for whatever the process is holding
+   * @param getHeldIds Returns the IDs of rows still waiting in memory
+   */
+  startHeartbeat(getHeldIds: () => number[]) {
+    this.heartbeatInterval = setInterval(() => {
+      this.heartbeat(getHeldIds()).catch(error => {
+        this.logger.error('Error renewing queue leases:', error);
+      });
+    }, QUEUE_HEARTBEAT_INTERVAL);
+  }
+
+  /**
+   * Reclaim expired leases now and then periodically
+   */
+  async startReclaiming() {
+    try {
+      await this.reclaimExpired();
+    } catch (error) {
+      this.logger.error('Error reclaiming expired leases at startup:', error);
+    }
+
+    this.reclaimInterval = setInterval(() => {
+      this.reclaimExpired().catch(error => {
+        this.logger.error('Error reclaiming expired leases:', error);
+      });
+    }, QUEUE_RECLAIM_INTERVAL);
+  }
+
+  /**
+   * Stop heartbeats and reclaiming
+   */
+  stop() {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    if (this.reclaimInterval) {
+      clearInterval(this.reclaimInterval);
+      this.reclaimInterval = null;
+    }
+  }
+}
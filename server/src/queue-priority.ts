@@ -0,0 +1,91 @@
+// server/src/queue-priority.ts
+import dotenv from 'dotenv';
+import { getTransactionType } from './transaction-types';
+
+dotenv.config();
+
+// Configurable constants
+export const QUEUE_AGING_MS = parseInt(process.env.QUEUE_AGING_MS || '5000'); // waiting this long adds one priority point
+export const QUEUE_MAX_AGING_BOOST = parseInt(process.env.QUEUE_MAX_AGING_BOOST || '100'); // keep above the largest gap between type priorities
+
+/**
+ * ORDER BY clause for dino_transaction_queue. Rows gain a point for every
+ * QUEUE_AGING_MS they wait, up to QUEUE_MAX_AGING_BOOST. The cap is above
+ * the largest gap between type priorities, so a waiting jump eventually
+ * passes fresh rows of every type and can't starve; the slow ramp keeps a
+ * jump backlog behind fresh game overs and name updates meanwhile (at the
+ * defaults a jump passes a fresh name update after about 3.5 minutes and a
+ * fresh game over after about 7.5).
+ *
+ * The formula is dino_queue_effective_priority in supabase/schema.sql;
+ * get_next_pending_transactions takes these same constants.
+ */
+export const QUEUE_ORDER_BY = `dino_queue_effective_priority(priority, timestamp, ${QUEUE_AGING_MS}, ${QUEUE_MAX_AGING_BOOST}) DESC, id ASC`;
+
+type PrioritizedTransaction = {
+  type: string;
+  priority?: number;
+  timestamp: number | string;
+};
+
+/**
+ * Base priority for a transaction type, stored on each queue row
+ */
+export function getTransactionPriority(type: string): number {
+  return getTransactionType(type)?.priority ?? 0;
+}
+
+/**
+ * Priority including the aging boost, matching QUEUE_ORDER_BY
+ */
+export function effectivePriority(tx: PrioritizedTransaction, now: number = Date.now()): number {
+  const base = tx.priority ?? getTransactionPriority(tx.type);
+  const waited = Math.max(0, now - Number(tx.timestamp));
+  return base + Math.min(QUEUE_MAX_AGING_BOOST, Math.floor(waited / QUEUE_AGING_MS));
+}
+
+/**
+ * Take rows in order until the limit, skipping types that are at their
+ * concurrency cap
+ * @param rows Candidate rows, already sorted by QUEUE_ORDER_BY
+ * @param inFlight Rows currently being processed, by type
+ */
+export function selectWithinCaps<T extends PrioritizedTransaction>(
+  rows: T[],
+  inFlight: Record<string, number>,
+  limit: number
+): T[] {
+  const counts = { ...inFlight };
+  const selected: T[] = [];
+
+  for (const row of rows) {
+    if (selected.length >= limit) break;
+
+    const cap = getTransactionType(row.type)?.concurrencyCap || 0;
+    const count = counts[row.type] || 0;
+    if (cap > 0 && count >= cap) continue;
+
+    counts[row.type] = count + 1;
+    selected.push(row);
+  }
+
+  return selected;
+}
+
+/**
+ * Insert a transaction into an in-memory queue ahead of anything with a
+ * lower effective priority, keeping FIFO order among equals
+ * @param minPosition Leave this many entries at the head untouched (e.g. one being sent)
+ */
+export function insertByPriority<T extends PrioritizedTransaction>(queue: T[], tx: T, minPosition: number = 0): number {
+  const now = Date.now();
+  const priority = effectivePriority(tx, now);
+  let position = queue.findIndex((queued, index) => index >= minPosition && effectivePriority(queued, now) < priority);
+
+  if (position === -1) {
+    position = queue.length;
+  }
+
+  queue.splice(position, 0, tx);
+  return position;
+}
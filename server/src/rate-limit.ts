@@ -0,0 +1,368 @@
+// server/src/rate-limit.ts
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { Logger } from 'winston';
+
+dotenv.config();
+
+// Configurable constants
+const RATE_LIMIT_BAN_THRESHOLD = parseInt(process.env.RATE_LIMIT_BAN_THRESHOLD || '20'); // violations before a ban
+const RATE_LIMIT_BAN_WINDOW_MS = parseInt(process.env.RATE_LIMIT_BAN_WINDOW_MS || '60000'); // 1 minute
+const RATE_LIMIT_BAN_MS = parseInt(process.env.RATE_LIMIT_BAN_MS || '900000'); // 15 minutes
+const RATE_LIMIT_BAN_CACHE_MS = parseInt(process.env.RATE_LIMIT_BAN_CACHE_MS || '10000'); // how long a worker trusts its ban lookup
+const RATE_LIMIT_KEY_PREFIX = 'ratelimit';
+
+// Error codes sent in server:error and connect_error
+export const RATE_LIMITED = 'RATE_LIMITED';
+export const TEMP_BANNED = 'TEMP_BANNED';
+
+export type RateLimitScope = 'socket' | 'address' | 'ip';
+
+export type BucketConfig = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type EventLimits = Partial<Record<RateLimitScope, BucketConfig>>;
+
+export type RateLimitSubject = {
+  socketId: string;
+  ip: string;
+  playerAddress?: string;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  code?: string;
+  scope?: RateLimitScope;
+  retryAfterMs?: number;
+};
+
+export type RateLimitBan = {
+  scope: 'address' | 'ip';
+  subject: string;
+  reason: string;
+  expiresAt: number;
+};
+
+// Burst capacity and sustained rate per event, keyed by event name without the
+// `client:` prefix. Override any entry with a RATE_LIMITS JSON env var.
+const DEFAULT_LIMITS: Record<string, EventLimits> = {
+  connection: { ip: { capacity: 20, refillPerSecond: 0.5 } },
+  authChallenge: {
+    socket: { capacity: 5, refillPerSecond: 0.1 },
+    ip: { capacity: 20, refillPerSecond: 0.5 }
+  },
+  auth: {
+    socket: { capacity: 5, refillPerSecond: 0.1 },
+    ip: { capacity: 20, refillPerSecond: 0.5 }
+  },
+  checkUsername: {
+    socket: { capacity: 10, refillPerSecond: 1 },
+    ip: { capacity: 40, refillPerSecond: 4 }
+  },
+  gameStart: {
+    socket: { capacity: 5, refillPerSecond: 0.5 },
+    address: { capacity: 5, refillPerSecond: 0.5 },
+    ip: { capacity: 20, refillPerSecond: 2 }
+  },
+  jump: {
+    socket: { capacity: 10, refillPerSecond: 4 },
+    address: { capacity: 10, refillPerSecond: 4 },
+    ip: { capacity: 40, refillPerSecond: 16 }
+  },
+  gameOver: {
+    socket: { capacity: 3, refillPerSecond: 0.5 },
+    address: { capacity: 3, refillPerSecond: 0.5 },
+    ip: { capacity: 12, refillPerSecond: 2 }
+  },
+  default: {
+    socket: { capacity: 20, refillPerSecond: 2 },
+    ip: { capacity: 80, refillPerSecond: 8 }
+  }
+};
+
+function loadLimits(logger: Logger): Record<string, EventLimits> {
+  if (!process.env.RATE_LIMITS) return DEFAULT_LIMITS;
+
+  try {
+    const overrides = JSON.parse(process.env.RATE_LIMITS) as Record<string, EventLimits>;
+    const limits: Record<string, EventLimits> = { ...DEFAULT_LIMITS };
+    for (const [event, scopes] of Object.entries(overrides)) {
+      limits[event] = { ...limits[event], ...scopes };
+    }
+    return limits;
+  } catch (error) {
+    logger.error('Invalid RATE_LIMITS, using defaults:', error);
+    return DEFAULT_LIMITS;
+  }
+}
+
+interface BucketStore {
+  /**
+   * Take one token from a bucket
+   * @returns How long until a token is available, or 0 if one was taken
+   */
+  take(key: string, bucket: BucketConfig): Promise<number>;
+
+  /**
+   * Count an event in a fixed window
+   */
+  increment(key: string, windowMs: number): Promise<number>;
+}
+
+/**
+ * Buckets held in this process. Each worker enforces its own share.
+ */
+class MemoryBucketStore implements BucketStore {
+  private buckets: Map<string, { tokens: number; updatedAt: number }> = new Map();
+  private counters: Map<string, { count: number; resetAt: number }> = new Map();
+
+  async take(key: string, bucket: BucketConfig): Promise<number> {
+    const now = Date.now();
+    const state = this.buckets.get(key) || { tokens: bucket.capacity, updatedAt: now };
+
+    state.tokens = Math.min(bucket.capacity, state.tokens + (now - state.updatedAt) / 1000 * bucket.refillPerSecond);
+    state.updatedAt = now;
+
+    let retryAfterMs = 0;
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+    } else {
+      retryAfterMs = Math.ceil((1 - state.tokens) / bucket.refillPerSecond * 1000);
+    }
+
+    this.buckets.set(key, state);
+    return retryAfterMs;
+  }
+
+  async increment(key: string, windowMs: number): Promise<number> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+
+    if (!counter || counter.resetAt <= now) {
+      this.counters.set(key, { count: 1, resetAt: now + windowMs });
+      return 1;
+    }
+
+    counter.count += 1;
+    return counter.count;
+  }
+
+  /**
+   * Drop buckets that have refilled completely
+   */
+  prune(limits: Record<string, EventLimits>) {
+    const now = Date.now();
+    const longestRefillMs = Math.max(...Object.values(limits).flatMap(scopes =>
+      Object.values(scopes).map(bucket => bucket.capacity / bucket.refillPerSecond * 1000)
+    ));
+
+    for (const [key, state] of this.buckets.entries()) {
+      if (now - state.updatedAt > longestRefillMs) this.buckets.delete(key);
+    }
+    for (const [key, counter] of this.counters.entries()) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+// Refill and take atomically so concurrent workers share one bucket
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) / 1000 * rate)
+local retry = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  retry = math.ceil((1 - tokens) / rate * 1000)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate * 1000) + 1000)
+return retry
+`;
+
+/**
+ * Buckets shared by every worker through Redis
+ */
+class RedisBucketStore implements BucketStore {
+  private redisClient: any;
+
+  constructor(redisClient: any) {
+    this.redisClient = redisClient;
+  }
+
+  async take(key: string, bucket: BucketConfig): Promise<number> {
+    const retryAfterMs = await this.redisClient.eval(TAKE_SCRIPT, {
+      keys: [key],
+      arguments: [String(bucket.capacity), String(bucket.refillPerSecond), String(Date.now())]
+    });
+    return Number(retryAfterMs) || 0;
+  }
+
+  async increment(key: string, windowMs: number): Promise<number> {
+    const count = await this.redisClient.incr(key);
+    if (count === 1) {
+      await this.redisClient.pExpire(key, windowMs);
+    }
+    return count;
+  }
+}
+
+/**
+ * Token-bucket limits per socket, per authenticated address and per IP for each
+ * socket event. Repeat offenders are banned for a while; bans are stored in
+ * Postgres so they apply to every worker and survive restarts.
+ */
+export class RateLimiter {
+  private pool: Pool;
+  private logger: Logger;
+  private store: BucketStore;
+  private limits: Record<string, EventLimits>;
+  private banCache: Map<string, { ban: RateLimitBan | null; checkedAt: number }> = new Map();
+
+  /**
+   * @param redisClient Connected Redis client, or null to keep buckets in memory
+   */
+  constructor(pool: Pool, logger: Logger, redisClient: any = null) {
+    this.pool = pool;
+    this.logger = logger;
+    this.limits = loadLimits(logger);
+
+    if (redisClient) {
+      this.store = new RedisBucketStore(redisClient);
+    } else {
+      const memoryStore = new MemoryBucketStore();
+      setInterval(() => memoryStore.prune(this.limits), 60000).unref();
+      this.store = memoryStore;
+    }
+  }
+
+  /**
+   * Look up the client IP, honouring X-Forwarded-For behind a trusted proxy
+   */
+  static getClientIp(handshake: { address: string; headers: Record<string, any> }): string {
+    if (process.env.TRUST_PROXY === 'true') {
+      const forwarded = handshake.headers['x-forwarded-for'];
+      if (typeof forwarded === 'string' && forwarded.length > 0) {
+        return forwarded.split(',')[0].trim();
+      }
+    }
+    return handshake.address;
+  }
+
+  /**
+   * Find an active ban for the subject's address or IP
+   */
+  async getActiveBan(subject: RateLimitSubject): Promise<RateLimitBan | null> {
+    const identities = [subject.ip, subject.playerAddress].filter((value): value is string => !!value);
+
+    for (const identity of identities) {
+      const ban = await this.lookupBan(identity);
+      if (ban) return ban;
+    }
+
+    return null;
+  }
+
+  private async lookupBan(identity: string): Promise<RateLimitBan | null> {
+    const now = Date.now();
+    const cached = this.banCache.get(identity);
+    if (cached && now - cached.checkedAt < RATE_LIMIT_BAN_CACHE_MS) {
+      return cached.ban && cached.ban.expiresAt > now ? cached.ban : null;
+    }
+
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT scope, subject, reason, expires_at FROM dino_rate_limit_bans
+         WHERE subject = $1 AND expires_at > NOW()
+         ORDER BY expires_at DESC
+         LIMIT 1`,
+        [identity]
+      );
+
+      const row = result.rows[0];
+      const ban = row ? {
+        scope: row.scope,
+        subject: row.subject,
+        reason: row.reason,
+        expiresAt: new Date(row.expires_at).getTime()
+      } : null;
+
+      this.banCache.set(identity, { ban, checkedAt: now });
+      return ban;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Ban the offender's address if known, otherwise their IP
+   */
+  private async ban(subject: RateLimitSubject, reason: string): Promise<RateLimitBan> {
+    const scope = subject.playerAddress ? 'address' : 'ip';
+    const identity = subject.playerAddress || subject.ip;
+    const expiresAt = Date.now() + RATE_LIMIT_BAN_MS;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO dino_rate_limit_bans (scope, subject, reason, expires_at)
+         VALUES ($1, $2, $3, $4)`,
+        [scope, identity, reason, new Date(expiresAt)]
+      );
+    } finally {
+      client.release();
+    }
+
+    const ban = { scope, subject: identity, reason, expiresAt } as RateLimitBan;
+    this.banCache.set(identity, { ban, checkedAt: Date.now() });
+    this.logger.warn(`Banned ${scope} ${identity} until ${new Date(expiresAt).toISOString()}: ${reason}`);
+    return ban;
+  }
+
+  /**
+   * Take a token for an event from every bucket that applies to the subject
+   * @param event Socket event name, with or without the `client:` prefix
+   */
+  async consume(event: string, subject: RateLimitSubject): Promise<RateLimitDecision> {
+    const activeBan = await this.getActiveBan(subject);
+    if (activeBan) {
+      return { allowed: false, code: TEMP_BANNED, retryAfterMs: activeBan.expiresAt - Date.now() };
+    }
+
+    const name = event.replace(/^client:/, '');
+    const limits = this.limits[name] || this.limits.default;
+    const identities: Record<RateLimitScope, string | undefined> = {
+      socket: subject.socketId,
+      address: subject.playerAddress,
+      ip: subject.ip
+    };
+
+    for (const scope of ['socket', 'address', 'ip'] as RateLimitScope[]) {
+      const bucket = limits[scope];
+      const identity = identities[scope];
+      if (!bucket || !identity) continue;
+
+      const retryAfterMs = await this.store.take(`${RATE_LIMIT_KEY_PREFIX}:${name}:${scope}:${identity}`, bucket);
+      if (retryAfterMs === 0) continue;
+
+      const offender = subject.playerAddress || subject.ip;
+      const violations = await this.store.increment(`${RATE_LIMIT_KEY_PREFIX}:violations:${offender}`, RATE_LIMIT_BAN_WINDOW_MS);
+      if (violations >= RATE_LIMIT_BAN_THRESHOLD) {
+        const ban = await this.ban(subject, `${violations} rate limit violations on ${name} (${scope})`);
+        return { allowed: false, code: TEMP_BANNED, scope, retryAfterMs: ban.expiresAt - Date.now() };
+      }
+
+      return { allowed: false, code: RATE_LIMITED, scope, retryAfterMs };
+    }
+
+    return { allowed: true };
+  }
+}
@@ -0,0 +1,391 @@
+// server/src/reconciliation-server.ts
+import dotenv from 'dotenv';
+import { Pool, PoolClient } from 'pg';
+import { createPublicClient } from 'viem';
+import winston from 'winston';
+import { loadDeployments } from './deployments';
+import { DinoRunnerContract, PlayerStats } from './dino-runner-contract';
+import { getTransactionPriority } from './queue-priority';
+import { RpcRouter } from './rpc-transport';
+import { SponsorshipPolicy } from './sponsorship';
+
+// Load environment variables
+dotenv.config();
+
+// Configure logger
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'reconciliation-server.log' })
+  ]
+});
+
+// Constants
+const RECONCILE_INTERVAL = parseInt(process.env.RECONCILE_INTERVAL || '3600000'); // Default 1 hour
+const RECONCILE_MAX_PLAYERS = parseInt(process.env.RECONCILE_MAX_PLAYERS || '1000'); // most recently active profiles checked per run
+const RECONCILE_BATCH_SIZE = parseInt(process.env.RECONCILE_BATCH_SIZE || '25'); // getPlayerStats calls per JSON-RPC batch
+const RECONCILE_QUEUE_CORRECTIONS = process.env.RECONCILE_QUEUE_CORRECTIONS === 'true'; // queue transactions for missing game overs and names
+const TX_TYPE_GAME_OVER = 'gameover';
+const TX_TYPE_SET_PLAYER = 'setplayer';
+
+// Initialize database pool
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  max: 5,
+  idleTimeoutMillis: 30000,
+  connectionTimeoutMillis: 10000
+});
+
+// The database is compared with one deployment's contract: --deployment <name>, else the default
+const deploymentRegistry = loadDeployments();
+const deploymentArg = process.argv.indexOf('--deployment');
+const deployment = deploymentArg !== -1
+  ? deploymentRegistry.get(process.argv[deploymentArg + 1])
+  : deploymentRegistry.defaultDeployment;
+
+const publicClient = createPublicClient({
+  chain: deployment.chain,
+  transport: new RpcRouter(logger, deployment.chain).createTransport({ batchSize: RECONCILE_BATCH_SIZE })
+});
+const contract = new DinoRunnerContract(publicClient, deployment.contractAddress);
+
+// Corrections are paid by the relay wallets, so they draw from the same budgets as game transactions
+const sponsorshipPolicy = new SponsorshipPolicy(pool, logger);
+
+// Kinds of drift the report records
+type DifferenceKind =
+  | 'missing_game_over'   // a database high score the contract never recorded
+  | 'high_score'          // the contract holds a higher score than the database
+  | 'name'                // profile username differs from the on-chain name
+  | 'total_games'
+  | 'total_jumps'
+  | 'leaderboard_entry'   // on-chain top-10 entry missing from or different in dino_leaderboard
+  | 'global_stats';
+
+interface Difference {
+  playerAddress: string | null;
+  kind: DifferenceKind;
+  dbValue: string | null;
+  chainValue: string | null;
+  details?: Record<string, unknown>;
+  corrected?: boolean;
+}
+
+interface ReconciliationReport {
+  runId: number;
+  playersChecked: number;
+  differences: Difference[];
+  corrections: number;
+  verified: number;
+}
+
+// Read getPlayerStats for many players; batched by the transport
+async function fetchPlayerStats(addresses: string[]): Promise<Map<string, PlayerStats>> {
+  const stats = new Map<string, PlayerStats>();
+
+  for (let i = 0; i < addresses.length; i += RECONCILE_BATCH_SIZE) {
+    const batch = addresses.slice(i, i + RECONCILE_BATCH_SIZE);
+    const results = await Promise.all(batch.map(address => contract.getPlayerStats(address as `0x${string}`)));
+    batch.forEach((address, j) => stats.set(address.toLowerCase(), results[j]));
+  }
+
+  return stats;
+}
+
+// A row in flight for the same work means a correction is already under way
+async function hasOpenTransaction(client: PoolClient, playerAddress: string, type: string, gameId?: string): Promise<boolean> {
+  const result = await client.query(
+    `SELECT 1 FROM dino_transaction_queue
+     WHERE player_address = $1 AND type = $2 AND ($3::text IS NULL OR game_id = $3) AND deployment = $4
+       AND status IN ('pending', 'processing', 'sent')
+     LIMIT 1`,
+    [playerAddress, type, gameId ?? null, deployment.name]
+  );
+  return result.rows.length > 0;
+}
+
+// Queue a correction only if the sponsorship budget has room, charging it in the same transaction
+async function queueSponsoredCorrection(
+  client: PoolClient,
+  playerAddress: string,
+  type: string,
+  queue: () => Promise<boolean>
+): Promise<boolean> {
+  await client.query('BEGIN');
+  try {
+    const sponsorship = await sponsorshipPolicy.reserve(client, playerAddress, type);
+    const queued = sponsorship.sponsored && await queue();
+    await client.query(queued ? 'COMMIT' : 'ROLLBACK');
+    return queued;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+// Send a game over again: requeue its failed or dead-lettered row, or queue a new one
+async function queueGameOverCorrection(client: PoolClient, playerAddress: string, gameId: string, score: number): Promise<boolean> {
+  if (await hasOpenTransaction(client, playerAddress, TX_TYPE_GAME_OVER, gameId)) return false;
+
+  const requeued = await client.query(
+    `UPDATE dino_transaction_queue
+     SET status = 'pending', retries = 0, timestamp = $4, block_number = NULL, block_hash = NULL,
+         last_error = NULL, error_class = NULL
+     WHERE id = (
+       SELECT id FROM dino_transaction_queue
+       WHERE player_address = $1 AND game_id = $2 AND type = $3 AND status IN ('failed', 'dead') AND deployment = $5
+       ORDER BY id DESC LIMIT 1
+     )`,
+    [playerAddress, gameId, TX_TYPE_GAME_OVER, Date.now(), deployment.name]
+  );
+  if ((requeued.rowCount || 0) > 0) return true;
+
+  // A game keeps a single game over row, whatever its state
+  const inserted = await client.query(
+    `INSERT INTO dino_transaction_queue
+     (player_address, game_id, type, score, timestamp, status, priority, deployment)
+     VALUES ($1, $2, $3, $4, $5, 'pending', $6, $7)
+     ON CONFLICT DO NOTHING`,
+    [playerAddress, gameId, TX_TYPE_GAME_OVER, score, Date.now(), getTransactionPriority(TX_TYPE_GAME_OVER), deployment.name]
+  );
+  return (inserted.rowCount || 0) > 0;
+}
+
+async function queueNameCorrection(client: PoolClient, playerAddress: string, username: string): Promise<boolean> {
+  if (await hasOpenTransaction(client, playerAddress, TX_TYPE_SET_PLAYER)) return false;
+
+  await client.query(
+    `INSERT INTO dino_transaction_queue
+     (player_address, game_id, type, timestamp, status, username, score, priority, deployment)
+     VALUES ($1, 'profile-update', $2, $3, 'pending', $4, 0, $5, $6)`,
+    [playerAddress, TX_TYPE_SET_PLAYER, Date.now(), username, getTransactionPriority(TX_TYPE_SET_PLAYER), deployment.name]
+  );
+  return true;
+}
+
+// Compare profiles and leaderboard rows with the contract's player stats
+async function reconcilePlayers(client: PoolClient, differences: Difference[]): Promise<{ playersChecked: number; verified: number }> {
+  const profiles = await client.query(
+    `SELECT p.player_address, p.username, p.total_games, p.total_jumps, p.high_score
+     FROM dino_player_profiles p
+     ORDER BY p.last_played_at DESC
+     LIMIT $1`,
+    [RECONCILE_MAX_PLAYERS]
+  );
+  // Only games played on this deployment; games from before the registry count as the default's
+  const leaderboard = await client.query(
+    `SELECT l.id, l.player_address, l.score, l.game_id, l.verified_on_chain, l.tx_hash
+     FROM dino_leaderboard l
+     LEFT JOIN dino_player_sessions s ON s.game_id = l.game_id
+     WHERE COALESCE(s.deployment, $2) = $1`,
+    [deployment.name, deploymentRegistry.defaultDeployment.name]
+  );
+
+  const addresses = Array.from(new Set([
+    ...profiles.rows.map(row => row.player_address.toLowerCase()),
+    ...leaderboard.rows.map(row => row.player_address.toLowerCase())
+  ]));
+  const chainStats = await fetchPlayerStats(addresses);
+  let verified = 0;
+
+  for (const profile of profiles.rows) {
+    const address = profile.player_address.toLowerCase();
+    const stats = chainStats.get(address);
+    if (!stats) continue;
+
+    if (profile.username && profile.username !== stats.name) {
+      const difference: Difference = { playerAddress: address, kind: 'name', dbValue: profile.username, chainValue: stats.name };
+      if (RECONCILE_QUEUE_CORRECTIONS) {
+        difference.corrected = await queueSponsoredCorrection(client, address, TX_TYPE_SET_PLAYER,
+          () => queueNameCorrection(client, address, profile.username));
+      }
+      differences.push(difference);
+    }
+
+    // Unsponsored jumps never go on-chain, so the database may legitimately count more
+    if (BigInt(profile.total_jumps || 0) < stats.totalJumps) {
+      differences.push({ playerAddress: address, kind: 'total_jumps', dbValue: String(profile.total_jumps), chainValue: stats.totalJumps.toString() });
+    }
+    if (BigInt(profile.total_games || 0) !== stats.totalGames) {
+      differences.push({ playerAddress: address, kind: 'total_games', dbValue: String(profile.total_games), chainValue: stats.totalGames.toString() });
+    }
+  }
+
+  for (const row of leaderboard.rows) {
+    const address = row.player_address.toLowerCase();
+    const stats = chainStats.get(address);
+    if (!stats) continue;
+
+    const onChain = stats.highScore >= BigInt(row.score);
+
+    // Prefer the indexed event as proof; fall back to the confirmed queue row. Only
+    // proof for the row's current game counts, not an earlier high score's
+    const proof = await client.query(
+      `SELECT tx_hash FROM dino_event_game_overs WHERE game_id = $1 AND player_address = $2
+       UNION ALL
+       SELECT hash FROM dino_transaction_queue WHERE game_id = $1 AND player_address = $2 AND type = $3 AND status = 'confirmed'
+       LIMIT 1`,
+      [row.game_id, address, TX_TYPE_GAME_OVER]
+    );
+    const txHash = proof.rows[0]?.tx_hash ?? null;
+
+    if (onChain !== row.verified_on_chain || txHash !== row.tx_hash) {
+      await client.query(
+        'UPDATE dino_leaderboard SET verified_on_chain = $1, tx_hash = $2 WHERE id = $3',
+        [onChain, txHash, row.id]
+      );
+    }
+
+    if (onChain) {
+      verified++;
+      if (stats.highScore > BigInt(row.score)) {
+        differences.push({ playerAddress: address, kind: 'high_score', dbValue: String(row.score), chainValue: stats.highScore.toString() });
+      }
+    } else {
+      const difference: Difference = {
+        playerAddress: address,
+        kind: 'missing_game_over',
+        dbValue: String(row.score),
+        chainValue: stats.highScore.toString(),
+        details: { gameId: row.game_id }
+      };
+      if (RECONCILE_QUEUE_CORRECTIONS) {
+        difference.corrected = await queueSponsoredCorrection(client, address, TX_TYPE_GAME_OVER,
+          () => queueGameOverCorrection(client, address, row.game_id, row.score));
+      }
+      differences.push(difference);
+    }
+  }
+
+  return { playersChecked: addresses.length, verified };
+}
+
+// Compare the contract's top 10 and totals with the database
+async function reconcileGlobal(client: PoolClient, differences: Difference[]): Promise<Record<string, string>> {
+  const [chainLeaderboard, globalStats] = await Promise.all([
+    contract.getLeaderboard(),
+    contract.getGlobalStats()
+  ]);
+
+  for (const entry of chainLeaderboard) {
+    const address = entry.player.toLowerCase();
+    const result = await client.query(
+      'SELECT MAX(score) AS score FROM dino_leaderboard WHERE player_address = $1',
+      [address]
+    );
+    const dbScore = result.rows[0]?.score;
+    if (dbScore === null || dbScore === undefined || BigInt(dbScore) !== entry.score) {
+      differences.push({
+        playerAddress: address,
+        kind: 'leaderboard_entry',
+        dbValue: dbScore === null || dbScore === undefined ? null : String(dbScore),
+        chainValue: entry.score.toString(),
+        details: { name: entry.name }
+      });
+    }
+  }
+
+  const [totalJumps, totalGames, totalPlayers] = globalStats;
+  const totals = await client.query(
+    `SELECT COALESCE(SUM(total_jumps), 0) AS total_jumps, COALESCE(SUM(total_games), 0) AS total_games, COUNT(*) AS total_players
+     FROM dino_player_profiles`
+  );
+  const db = totals.rows[0];
+
+  if (BigInt(db.total_games) !== totalGames || BigInt(db.total_players) !== totalPlayers) {
+    differences.push({
+      playerAddress: null,
+      kind: 'global_stats',
+      dbValue: JSON.stringify({ totalJumps: db.total_jumps, totalGames: db.total_games, totalPlayers: db.total_players }),
+      chainValue: JSON.stringify({ totalJumps: totalJumps.toString(), totalGames: totalGames.toString(), totalPlayers: totalPlayers.toString() })
+    });
+  }
+
+  return {
+    totalJumps: totalJumps.toString(),
+    totalGames: totalGames.toString(),
+    totalPlayers: totalPlayers.toString()
+  };
+}
+
+// Main reconciliation process
+async function runReconciliation(): Promise<ReconciliationReport | null> {
+  logger.info(`Starting on-chain reconciliation against ${deployment.name} (${deployment.contractAddress})`);
+
+  const client = await pool.connect();
+  try {
+    const run = await client.query(
+      'INSERT INTO dino_reconciliation_runs (queue_corrections, deployment) VALUES ($1, $2) RETURNING id',
+      [RECONCILE_QUEUE_CORRECTIONS, deployment.name]
+    );
+    const runId = run.rows[0].id;
+    const differences: Difference[] = [];
+
+    const { playersChecked, verified } = await reconcilePlayers(client, differences);
+    const chainTotals = await reconcileGlobal(client, differences);
+
+    for (const difference of differences) {
+      await client.query(
+        `INSERT INTO dino_reconciliation_diffs (run_id, player_address, kind, db_value, chain_value, details, corrected)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [runId, difference.playerAddress, difference.kind, difference.dbValue, difference.chainValue,
+         difference.details ? JSON.stringify(difference.details) : null, difference.corrected ?? false]
+      );
+    }
+
+    const corrections = differences.filter(difference => difference.corrected).length;
+    await client.query(
+      `UPDATE dino_reconciliation_runs
+       SET finished_at = NOW(), players_checked = $2, differences = $3, corrections = $4, verified = $5, chain_totals = $6
+       WHERE id = $1`,
+      [runId, playersChecked, differences.length, corrections, verified, JSON.stringify(chainTotals)]
+    );
+
+    const byKind: Record<string, number> = {};
+    differences.forEach(difference => { byKind[difference.kind] = (byKind[difference.kind] || 0) + 1; });
+    logger.info(`Reconciliation run ${runId}: ${playersChecked} players checked, ${verified} leaderboard rows verified, ${differences.length} differences, ${corrections} corrections queued`, { byKind });
+
+    return { runId, playersChecked, differences, corrections, verified };
+  } catch (error) {
+    logger.error('Error in reconciliation:', error);
+    return null;
+  } finally {
+    client.release();
+  }
+}
+
+// Start the reconciliation server; --once runs a single pass for cron
+async function startReconciliationServer() {
+  logger.info('Reconciliation server starting up');
+  await runReconciliation();
+
+  if (process.argv.includes('--once')) {
+    await pool.end();
+    return;
+  }
+
+  setInterval(runReconciliation, RECONCILE_INTERVAL);
+  logger.info(`Reconciliation server running, checking every ${RECONCILE_INTERVAL / 1000} seconds`);
+}
+
+// Handle shutdown gracefully
+process.on('SIGTERM', async () => {
+  logger.info('SIGTERM received, shutting down');
+  process.exit(0);
+});
+
+process.on('SIGINT', async () => {
+  logger.info('SIGINT received, shutting down');
+  process.exit(0);
+});
+
+// Start the server
+startReconciliationServer().catch(error => {
+  logger.error('Failed to start reconciliation server:', error);
+  process.exit(1);
+});
@@ -1,9 +1,17 @@
 import dotenv from 'dotenv';
 import { Pool } from 'pg';
-import { createWalletClient, createPublicClient, http } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { SomniaChain } from './chains';
-import { DinoRunnerABI } from './abi';
+import { createWalletClient, createPublicClient } from 'viem';
+import { Deployment, loadDeployments } from './deployments';
+import { DinoRunnerContract } from './dino-runner-contract';
+import { recoverableTransactionTypes, sendTransaction, validateTransaction } from './transaction-types';
+import { QUEUE_ORDER_BY } from './queue-priority';
+import { QueueLeaseManager } from './queue-lease';
+import { NonceManager } from './nonce-manager';
+import { FeeStrategy, TransactionFees } from './fee-strategy';
+import { WalletPool } from './wallet-pool';
+import { DeadLetterQueue, markFailed } from './dead-letter';
+import { checkPreviousSend } from './idempotency';
+import { RpcRouter } from './rpc-transport';
 import winston from 'winston';
 
 // Load environment variables
@@ -23,15 +31,11 @@ const logger = winston.createLogger({
 });
 
 // Constants
-const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS || '';
 const RECOVERY_INTERVAL = parseInt(process.env.RECOVERY_INTERVAL || '300000'); // Default 5 minutes
 const BATCH_SIZE = parseInt(process.env.RECOVERY_BATCH_SIZE || '5');
 const TX_AGE_LIMIT_HOURS = parseInt(process.env.TX_AGE_LIMIT_HOURS || '48'); // Default 48 hours
 const MAX_RETRIES = parseInt(process.env.MAX_RETRIES || '5');
 const WALLET_COUNT = parseInt(process.env.RECOVERY_WALLET_COUNT || '3'); // Default to 3 wallets in pool
-const TX_TYPE_JUMP = 'jump';
-const TX_TYPE_GAME_OVER = 'gameover';
-const TX_TYPE_SET_PLAYER = 'setplayer';
 
 // Initialize database pool
 const pool = new Pool({
@@ -41,10 +45,18 @@ const pool = new Pool({
   connectionTimeoutMillis: 10000
 });
 
+// Every deployment's failed rows are recovered, including ones no longer taking new games
+const deploymentRegistry = loadDeployments();
+
+// Kept across runs so endpoint health carries over
+const rpcRouters: Map<string, RpcRouter> = new Map(
+  deploymentRegistry.deployments.map(deployment => [deployment.name, new RpcRouter(logger, deployment.chain)])
+);
+
 // Transaction types
 interface Transaction {
   id: number;
-  player_address: string;
+  player_address: `0x${string}`;
   game_id: string;
   type: string;
   height?: number;
@@ -52,8 +64,12 @@ interface Transaction {
   username?: string;
   timestamp: number;
   status: string;
+  deployment: string;
   retries: number;
+  priority: number;
   hash?: string;
+  max_fee_per_gas?: string | null;          // wei, as sent last time
+  max_priority_fee_per_gas?: string | null;
 }
 
 // Wallet status tracking
@@ -65,28 +81,33 @@ interface WalletStatus {
   lastProcessedTime?: number;
   totalProcessed: number;
   consecutiveErrors: number;
-  nonce: bigint;
 }
 
-// Initialize blockchain clients with wallet pool
-async function initializeBlockchain() {
-  if (!CONTRACT_ADDRESS) {
-    throw new Error('CONTRACT_ADDRESS environment variable is required');
-  }
+// A broadcast transaction whose nonce and hash are still to be written
+interface UnrecordedSend {
+  tx: Transaction;
+  address: string;
+  nonce: bigint;
+  hash: string;
+  walletIndex: number;
+  fees: TransactionFees;
+}
 
-  const rpcUrl = process.env.RPC_URL || 'https://dream-rpc.somnia.network';
-  logger.info(`Using RPC URL: ${rpcUrl}`);
+// Initialize a deployment's blockchain clients with its recovery wallet pool
+async function initializeBlockchain(deployment: Deployment) {
+  const rpcRouter = rpcRouters.get(deployment.name)!;
 
   // Initialize public client
   const publicClient = createPublicClient({
-    chain: SomniaChain,
-    transport: http(rpcUrl, {
-      timeout: 30000,
-      retryCount: 3,
-      retryDelay: 1000,
-    })
+    chain: deployment.chain,
+    transport: rpcRouter.createTransport()
   });
   
+  // Nonces are reserved through the same store as the relay's
+  const nonceManager = new NonceManager(pool, logger, publicClient, 'recovery');
+  await nonceManager.connect();
+  const feeStrategy = new FeeStrategy(publicClient, logger);
+  
   // Initialize wallet pool
   const walletPool: Array<{
     walletClient: any;
@@ -94,64 +115,53 @@ async function initializeBlockchain() {
     status: WalletStatus;
   }> = [];
   
-  // Find wallet private keys from environment variables
-  for (let i = 1; i <= WALLET_COUNT; i++) {
-    const privateKeyEnvVar = `RECOVERY_PRIVATE_KEY_${i}`;
-    const privateKey = process.env[privateKeyEnvVar];
+  // Register the configured wallets on first run, then load the pool
+  const recoveryPool = new WalletPool(pool, logger, deployment.walletPools.recovery, 'recovery', WALLET_COUNT);
+  await recoveryPool.seed();
+  const poolWallets = await recoveryPool.load();
+  
+  for (const poolWallet of poolWallets) {
+    const account = poolWallet.account;
+    
+    // Initialize wallet client
+    const walletClient = createWalletClient({
+      account,
+      chain: deployment.chain,
+      transport: rpcRouter.createTransport()
+    });
     
-    if (!privateKey) {
-      logger.warn(`No private key found for wallet ${i} (${privateKeyEnvVar})`);
+    // Retiring wallets send nothing new; retire them once their nonces have cleared
+    if (poolWallet.state === 'retiring') {
+      try {
+        await recoveryPool.finalizeRetirement(poolWallet, walletClient, publicClient, nonceManager, feeStrategy);
+      } catch (error) {
+        logger.error(`Error retiring recovery wallet ${account.address}:`, error);
+      }
       continue;
     }
     
-    try {
-      // Ensure private key has 0x prefix
-      const formattedKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
-      const account = privateKeyToAccount(formattedKey as `0x${string}`);
-      
-      // Initialize wallet client
-      const walletClient = createWalletClient({
-        account,
-        chain: SomniaChain,
-        transport: http(rpcUrl, {
-          timeout: 30000,
-          retryCount: 3,
-          retryDelay: 1000,
-        })
-      });
-      
-      // Get initial nonce
-      const nonce = await publicClient.getTransactionCount({
-        address: account.address
-      });
-      
-      // Create wallet status
-      const status: WalletStatus = {
-        index: i - 1,
-        address: account.address,
-        isProcessing: false,
-        lastProcessedTime: Date.now(),
-        totalProcessed: 0,
-        consecutiveErrors: 0,
-        nonce: BigInt(String(nonce || 0))
-      };
-      
-      walletPool.push({ walletClient, account, status });
-      
-      logger.info(`Recovery wallet ${i} initialized: ${account.address}`);
-      logger.info(`Current nonce for wallet ${i}: ${nonce}`);
-    } catch (error) {
-      logger.error(`Failed to initialize wallet ${i}:`, error);
-    }
+    // Create wallet status
+    const status: WalletStatus = {
+      index: walletPool.length,
+      address: account.address,
+      isProcessing: false,
+      lastProcessedTime: Date.now(),
+      totalProcessed: 0,
+      consecutiveErrors: 0
+    };
+    
+    walletPool.push({ walletClient, account, status });
+    
+    logger.info(`${deployment.name} recovery wallet ${status.index + 1} initialized (${poolWallet.source}): ${account.address}`);
   }
   
   if (walletPool.length === 0) {
-    throw new Error('No recovery wallets could be initialized. Please check your private key environment variables.');
+    throw new Error(`No ${deployment.name} recovery wallets could be initialized. Please check the ${deployment.walletPools.recovery} wallet pool and key configuration.`);
   }
   
-  logger.info(`Successfully initialized ${walletPool.length} recovery wallets`);
+  logger.info(`Successfully initialized ${walletPool.length} ${deployment.name} recovery wallets`);
   
-  return { publicClient, walletPool };
+  return { publicClient, walletPool, nonceManager, feeStrategy };
 }
 
 // Select the best wallet for a transaction
@@ -188,26 +198,52 @@ function selectWallet(walletPool: Array<{ walletClient: any; account: any; statu
   }, null);
 }
 
-// Fetch failed transactions
-async function fetchFailedTransactions(): Promise<Transaction[]> {
+// Leases on the failed rows this process is retrying, so a second recovery
+// server (or a crash mid-batch) can't leave them stuck or send them twice
+const queueLease = new QueueLeaseManager(pool, logger, 'recovery');
+const heldTransactionIds = new Set<number>();
+
+// Sent rows whose hash couldn't be written. They keep their lease and are
+// written again on the next run; they are never sent a second time.
+const unrecordedSends = new Map<number, UnrecordedSend>();
+
+// Failed rows that are out of retries or too old end up here
+const deadLetters = new DeadLetterQueue(pool, logger);
+
+// Fetch and lease a deployment's failed transactions
+// @param excludedTypes Types held back by a fee spike
+async function fetchFailedTransactions(deployment: Deployment, excludedTypes: string[] = []): Promise<Transaction[]> {
   const client = await pool.connect();
   try {
     // Calculate timestamp for age limit
     const ageThreshold = Date.now() - (TX_AGE_LIMIT_HOURS * 60 * 60 * 1000);
 
+    await client.query('BEGIN');
+
     // Fetch failed transactions that are not too old and within retry limits
     const result = await client.query(
       `SELECT * FROM dino_transaction_queue 
        WHERE status = 'failed' 
        AND timestamp > $1
        AND retries < $2
-       AND type != 'setplayer'
-       ORDER BY timestamp ASC
-       LIMIT $3`,
-      [ageThreshold, MAX_RETRIES, BATCH_SIZE]
+       AND type = ANY($6)
+       AND NOT (type = ANY($4))
+       AND deployment = $5
+       ORDER BY ${QUEUE_ORDER_BY}
+       LIMIT $3
+       FOR UPDATE SKIP LOCKED`,
+      [ageThreshold, MAX_RETRIES, BATCH_SIZE, excludedTypes, deployment.name, recoverableTransactionTypes()]
     );
 
+    const ids = result.rows.map(row => row.id);
+    await queueLease.claim(client, ids);
+    await client.query('COMMIT');
+
+    ids.forEach(id => heldTransactionIds.add(id));
     return result.rows;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
   } finally {
     client.release();
   }
@@ -217,133 +253,194 @@ async function fetchFailedTransactions(): Promise<Transaction[]> {
 async function processTransaction(
   tx: Transaction, 
   wallet: { walletClient: any; account: any; status: WalletStatus },
-  publicClient: any
-): Promise<[boolean, string | undefined]> {
+  contract: DinoRunnerContract,
+  nonceManager: NonceManager,
+  feeStrategy: FeeStrategy
+): Promise<[boolean, string | undefined, TransactionFees | undefined, unknown]> {
   const { walletClient, account, status } = wallet;
+  let currentNonce: bigint | null = null;
+  let fees: TransactionFees;
+  let hash: string;
+  
+  // A row its type rejects fails without taking a nonce
+  const invalidReason = validateTransaction(tx);
+  if (invalidReason) {
+    logger.warn(`Transaction ${tx.id} not sent: ${invalidReason}`);
+    return [false, undefined, undefined, invalidReason];
+  }
   
   try {
-    let hash: string | undefined;
-    
     // Mark wallet as processing
     status.isProcessing = true;
     
-    // Update nonce for this wallet
-    let currentNonce = status.nonce;
+    fees = await feeStrategy.getFees();
+    
+    // Reserve a nonce the relay won't use for this wallet
+    currentNonce = await nonceManager.reserve(account.address, tx.id);
     
     // Log transaction details
     logger.info(`Processing failed transaction: ID=${tx.id}, Type=${tx.type}, Player=${tx.player_address} with Wallet ${status.index} (${account.address})`);
 
-    // Handle different transaction types
-    if (tx.type === TX_TYPE_JUMP) {
-      // Record jump transaction
-      const { request } = await publicClient.simulateContract({
-        address: CONTRACT_ADDRESS as `0x${string}`,
-        abi: DinoRunnerABI,
-        functionName: 'recordJump',
-        args: [
-          tx.player_address as `0x${string}`,
-          BigInt(String(tx.height || 0)),
-          BigInt(String(tx.score || 0)),
-          tx.game_id
-        ],
-        account: account,
-        nonce: currentNonce
-      });
-      
-      hash = await walletClient.writeContract(request);
-      
-    } else if (tx.type === TX_TYPE_GAME_OVER) {
-      // Record game over transaction
-      const { request } = await publicClient.simulateContract({
-        address: CONTRACT_ADDRESS as `0x${string}`,
-        abi: DinoRunnerABI,
-        functionName: 'recordGameOver',
-        args: [
-          tx.player_address as `0x${string}`,
-          BigInt(String(tx.score || 0)),
-          tx.game_id
-        ],
-        account: account,
-        nonce: currentNonce
-      });
-      
-      hash = await walletClient.writeContract(request);
-      
-    } else if (tx.type === TX_TYPE_SET_PLAYER) {
-      // Set player name
-      const { request } = await publicClient.simulateContract({
-        address: CONTRACT_ADDRESS as `0x${string}`,
-        abi: DinoRunnerABI,
-        functionName: 'setPlayer',
-        args: [
-          tx.player_address as `0x${string}`,
-          tx.username || ""
-        ],
-        account: account,
-        nonce: currentNonce
-      });
-      
-      hash = await walletClient.writeContract(request);
-    } else {
-      logger.warn(`Unknown transaction type: ${tx.type}`);
-      status.isProcessing = false;
-      return [false, undefined];
-    }
-
-    // Update wallet status on success
-    status.nonce = currentNonce + BigInt(1);
-    status.lastTxHash = hash;
-    status.lastProcessedTime = Date.now();
-    status.totalProcessed += 1;
-    status.consecutiveErrors = 0;
-    status.isProcessing = false;
-
-    logger.info(`Successfully sent transaction ${tx.id} with hash ${hash} using wallet ${status.index}`);
-    return [true, hash];
+    // Send with the contract function the row's type maps to
+    hash = await sendTransaction(contract, tx, { walletClient, nonce: currentNonce, fees });
   } catch (error) {
     // Update wallet status on error
     status.consecutiveErrors += 1;
     status.isProcessing = false;
     
-    // If we get a nonce error, try to refresh the nonce from the blockchain
-    const errorStr = String(error);
-    if (errorStr.includes('nonce') || errorStr.includes('NONCE_TOO_LOW')) {
-      try {
-        const newNonce = await publicClient.getTransactionCount({
-          address: account.address,
-          blockTag: 'pending'
-        });
-        status.nonce = newNonce;
-        logger.info(`Updated nonce for wallet ${status.index} to ${newNonce} after nonce error`);
-      } catch (nonceError) {
-        logger.error(`Failed to refresh nonce for wallet ${status.index}:`, nonceError);
-      }
+    // Nothing was broadcast, so the nonce can go back; the next reservation
+    // starts from the chain's pending count again
+    if (currentNonce !== null) {
+      await nonceManager.release(account.address, currentNonce);
     }
     
     logger.error(`Error processing transaction ${tx.id} with wallet ${status.index}:`, error);
-    return [false, undefined];
+    return [false, undefined, undefined, error];
+  }
+
+  // Update wallet status on success
+  status.lastTxHash = hash;
+  status.lastProcessedTime = Date.now();
+  status.totalProcessed += 1;
+  status.consecutiveErrors = 0;
+  status.isProcessing = false;
+
+  logger.info(`Successfully sent transaction ${tx.id} with hash ${hash} using wallet ${status.index}`);
+
+  await recordSend({
+    tx,
+    address: account.address,
+    nonce: currentNonce,
+    hash,
+    walletIndex: status.index,
+    fees
+  }, nonceManager);
+  return [true, hash, fees, undefined];
+}
+
+// Write a broadcast transaction's nonce and hash. The nonce is used either
+// way, so a failed write is kept for the next run instead of being undone.
+async function recordSend(send: UnrecordedSend, nonceManager: NonceManager): Promise<void> {
+  try {
+    await nonceManager.markSent(send.address, send.nonce, send.hash);
+    await updateTransactionStatus(send.tx, true, send.hash, send.walletIndex, send.fees);
+    unrecordedSends.delete(send.tx.id);
+  } catch (error) {
+    unrecordedSends.set(send.tx.id, send);
+    logger.error(`Transaction ${send.tx.id} was sent as ${send.hash} but couldn't be recorded, retrying next run:`, error);
   }
 }
 
 // Update transaction status in the database
-async function updateTransactionStatus(tx: Transaction, success: boolean, hash?: string, walletIndex?: number): Promise<void> {
+async function updateTransactionStatus(
+  tx: Transaction,
+  success: boolean,
+  hash?: string,
+  walletIndex?: number,
+  fees?: TransactionFees,
+  error?: unknown
+): Promise<void> {
   const client = await pool.connect();
   try {
     if (success && hash) {
-      // Update to 'sent' status with hash and wallet_index
+      // Update to 'sent' status with hash, wallet_index and the fees used
       await client.query(
-        'UPDATE dino_transaction_queue SET status = $1, hash = $2, retries = retries + 1, wallet_index = $3 WHERE id = $4',
-        ['sent', hash, walletIndex, tx.id]
+        `UPDATE dino_transaction_queue 
+         SET status = $1, hash = $2, retries = retries + 1, wallet_index = $3, max_fee_per_gas = $4, max_priority_fee_per_gas = $5,
+             block_number = NULL, block_hash = NULL
+         WHERE id = $6`,
+        ['sent', hash, walletIndex, fees?.maxFeePerGas.toString() ?? null, fees?.maxPriorityFeePerGas.toString() ?? null, tx.id]
       );
       logger.info(`Updated transaction ${tx.id} status to 'sent' with hash ${hash} (wallet ${walletIndex})`);
+      heldTransactionIds.delete(tx.id);
     } else {
-      // Update retry count
-      await client.query(
-        'UPDATE dino_transaction_queue SET retries = retries + 1 WHERE id = $1',
-        [tx.id]
-      );
+      // Update retry count, record why and hand the row back as failed
+      await markFailed(client, tx.id, error ?? 'Recovery attempt failed');
       logger.info(`Increased retry count for transaction ${tx.id}`);
     }
+  } finally {
+    // A sent row stays leased until its hash is written
+    if (!success) {
+      heldTransactionIds.delete(tx.id);
+    }
+    client.release();
+  }
+}
+
+// Hand a row back to the confirmation tracker if its last hash was mined or is still pending
+async function resumeIfAlreadySent(tx: Transaction, publicClient: any): Promise<boolean> {
+  const previous = await checkPreviousSend(publicClient, tx.hash!);
+  if (previous !== 'landed' && previous !== 'pending') return false;
+
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `UPDATE dino_transaction_queue
+       SET status = 'sent', block_number = NULL, block_hash = NULL, lease_owner = NULL, lease_expires_at = NULL
+       WHERE id = $1`,
+      [tx.id]
+    );
+    logger.warn(`Transaction ${tx.id} not resent: its earlier hash ${tx.hash} is ${previous}`);
+  } finally {
+    heldTransactionIds.delete(tx.id);
+    client.release();
+  }
+  return true;
+}
+
+// Replace stuck transactions and fill nonce gaps before sending more
+async function resolveStuckNonces(
+  walletPool: Array<{ walletClient: any; account: any; status: WalletStatus }>,
+  nonceManager: NonceManager
+): Promise<void> {
+  for (const wallet of walletPool) {
+    try {
+      const resolutions = await nonceManager.resolveStuck(wallet.walletClient);
+
+      for (const resolution of resolutions) {
+        if (!resolution.txId || !resolution.previousHash) continue;
+
+        const client = await pool.connect();
+        try {
+          if (resolution.action === 'replaced') {
+            await client.query(
+              'UPDATE dino_transaction_queue SET hash = $1 WHERE id = $2 AND hash = $3',
+              [resolution.hash, resolution.txId, resolution.previousHash]
+            );
+          } else {
+            // The cancelled call never happened, so it goes back to be recovered
+            await client.query(
+              `UPDATE dino_transaction_queue SET status = 'failed', error_class = 'nonce', last_error = $3
+               WHERE id = $1 AND hash = $2 AND status = 'sent'`,
+              [resolution.txId, resolution.previousHash, `Cancelled at nonce ${resolution.nonce}`]
+            );
+          }
+          logger.info(`Wallet ${wallet.status.index} ${resolution.action} transaction ${resolution.txId} at nonce ${resolution.nonce}`);
+        } finally {
+          client.release();
+        }
+      }
+    } catch (error) {
+      logger.error(`Error checking nonces for wallet ${wallet.status.index}:`, error);
+    }
+  }
+}
+
+// Hand back leased rows that were never attempted
+async function releaseHeldTransactions(): Promise<void> {
+  const ids = Array.from(heldTransactionIds).filter(id => !unrecordedSends.has(id));
+  if (ids.length === 0) return;
+
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `UPDATE dino_transaction_queue
+       SET status = 'failed', lease_owner = NULL, lease_expires_at = NULL
+       WHERE id = ANY($1) AND lease_owner = $2 AND status = 'processing'`,
+      [ids, queueLease.ownerId]
+    );
+    ids.forEach(id => heldTransactionIds.delete(id));
+    logger.info(`Released ${ids.length} unattempted transactions`);
   } finally {
     client.release();
   }
@@ -353,20 +450,50 @@ async function updateTransactionStatus(tx: Transaction, success: boolean, hash?:
 async function runRecovery() {
   logger.info('Starting transaction recovery process');
   
+  try {
+    // Set aside rows that are out of retries for an operator to look at
+    await deadLetters.collect(MAX_RETRIES, TX_AGE_LIMIT_HOURS);
+  } catch (error) {
+    logger.error('Error collecting dead letters:', error);
+  }
+  
+  for (const deployment of deploymentRegistry.deployments) {
+    await recoverDeployment(deployment);
+  }
+  
+  logger.info('Transaction recovery process completed');
+}
+
+// Retry one deployment's failed transactions with its recovery wallets
+async function recoverDeployment(deployment: Deployment) {
+  let nonceManager: NonceManager | null = null;
+  
   try {
     // Initialize blockchain
-    const blockchain = await initializeBlockchain();
-    const { publicClient, walletPool } = blockchain;
+    const blockchain = await initializeBlockchain(deployment);
+    const { publicClient, walletPool, feeStrategy } = blockchain;
+    const contract = new DinoRunnerContract(publicClient, deployment.contractAddress);
+    nonceManager = blockchain.nonceManager;
+    
+    // Write hashes a previous run sent but couldn't record, before their nonces look free
+    for (const send of Array.from(unrecordedSends.values())) {
+      if (send.tx.deployment === deployment.name) {
+        await recordSend(send, nonceManager);
+      }
+    }
+    
+    // Unblock wallets whose earlier transactions are stuck or missing
+    await resolveStuckNonces(walletPool, nonceManager);
     
     // Fetch failed transactions
-    const failedTransactions = await fetchFailedTransactions();
+    const failedTransactions = await fetchFailedTransactions(deployment, await feeStrategy.getPausedTypes());
     
     if (failedTransactions.length === 0) {
-      logger.info('No failed transactions to recover');
+      logger.info(`No failed ${deployment.name} transactions to recover`);
       return;
     }
     
-    logger.info(`Found ${failedTransactions.length} failed transactions to recover`);
+    logger.info(`Found ${failedTransactions.length} failed ${deployment.name} transactions to recover`);
     logger.info(`Available wallets: ${walletPool.length}`);
     
     // Process each transaction
@@ -380,27 +507,20 @@ async function runRecovery() {
           continue;
         }
         
-        // Get fresh nonce before each transaction
-        try {
-          const freshNonce = await publicClient.getTransactionCount({
-            address: selectedWallet.account.address,
-            blockTag: 'pending'
-          });
-          
-          // Use the greater of tracked nonce or fresh nonce
-          if (freshNonce > selectedWallet.status.nonce) {
-            selectedWallet.status.nonce = BigInt(String(freshNonce));
-            logger.info(`Updated nonce for wallet ${selectedWallet.status.index} to ${freshNonce}`);
-          }
-        } catch (nonceError) {
-          logger.warn(`Could not refresh nonce for wallet ${selectedWallet.status.index}, using stored value: ${selectedWallet.status.nonce}`);
+        // The last send may have landed after all; don't send it twice
+        if (tx.hash && await resumeIfAlreadySent(tx, publicClient)) {
+          continue;
         }
         
         // Process the transaction with selected wallet
-        const [success, hash] = await processTransaction(tx, selectedWallet, publicClient);
+        const [success, hash, fees, error] = await processTransaction(
+          tx, selectedWallet, contract, nonceManager, feeStrategy
+        );
         
-        // Update status in database
-        await updateTransactionStatus(tx, success, hash, selectedWallet.status.index);
+        // A sent row was recorded with its hash already
+        if (!success) {
+          await updateTransactionStatus(tx, success, hash, selectedWallet.status.index, fees, error);
+        }
         
         // Add a small delay between transactions
         await new Promise(resolve => setTimeout(resolve, 1000));
@@ -409,15 +529,20 @@ async function runRecovery() {
       }
     }
     
+    await releaseHeldTransactions();
+    
     // Log wallet statistics
-    logger.info('Wallet pool status:');
+    logger.info(`${deployment.name} wallet pool status:`);
     walletPool.forEach(wallet => {
-      logger.info(`Wallet ${wallet.status.index} (${wallet.status.address}): processed=${wallet.status.totalProcessed}, errors=${wallet.status.consecutiveErrors}, nonce=${wallet.status.nonce}`);
+      logger.info(`Wallet ${wallet.status.index} (${wallet.status.address}): processed=${wallet.status.totalProcessed}, errors=${wallet.status.consecutiveErrors}`);
+    });
+    rpcRouters.get(deployment.name)!.getHealth().forEach(endpoint => {
+      logger.info(`RPC ${endpoint.endpoint}${endpoint.active ? ' (active)' : ''}: score=${endpoint.score}, latency=${endpoint.latencyMs ?? '-'}ms, errorRate=${endpoint.errorRate}`);
     });
-    
-    logger.info('Transaction recovery process completed');
   } catch (error) {
-    logger.error('Error in recovery process:', error);
+    logger.error(`Error recovering ${deployment.name}:`, error);
+  } finally {
+    await nonceManager?.close();
   }
 }
 
@@ -425,6 +550,13 @@ async function runRecovery() {
 async function startRecoveryServer() {
   logger.info('Transaction Recovery Server starting up');
   
+  // Put back rows left in 'processing' by a crashed relay or recovery server
+  await queueLease.startReclaiming();
+  queueLease.startHeartbeat(() => Array.from(heldTransactionIds));
+  for (const rpcRouter of rpcRouters.values()) {
+    rpcRouter.startProbing();
+  }
+  
   // Initial check
   await runRecovery();
   
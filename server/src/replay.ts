@@ -0,0 +1,364 @@
+// server/src/replay.ts
+import dotenv from 'dotenv';
+import {
+  GAME_SPEED_INITIAL,
+  GAME_SPEED_MAX,
+  GAME_ACCELERATION,
+  GAME_SCORE_COEFFICIENT,
+  GAME_STEPS_PER_SECOND
+} from './score-validation';
+
+dotenv.config();
+
+// Configurable constants
+const REPLAY_SCORE_TOLERANCE = parseInt(process.env.REPLAY_SCORE_TOLERANCE || '2'); // points
+const REPLAY_FRAME_SLACK = parseInt(process.env.REPLAY_FRAME_SLACK || '120'); // frames simulated past the logged end
+const REPLAY_MAX_INPUTS = parseInt(process.env.REPLAY_MAX_INPUTS || '20000');
+
+// Runner world, mirrored from src/config/game (prefabs/*.js, scenes/game.js).
+// One simulated frame is one of the client's fixed game steps.
+const FRAME_SECONDS = 1 / GAME_STEPS_PER_SECOND;
+const GAME_WIDTH = 1200;
+const GAME_WIDTH_MOBILE = 600;
+const MOBILE_SPEED_COEFFICIENT = 1.2;
+const FIRST_OBSTACLE_FRAME = 180; // SPAWN.DELAY of 3000ms in steps, counted from the intro like Horizon
+const MAX_DUPLICATION = 2;
+const GAP_MAX_MULTIPLIER = 1.5;
+
+const PLAYER_X = 50;
+const FLOOR_Y = 325;
+const PLAYER_GRAVITY = 2300 * 2 + 3200; // body gravity + jump acceleration
+const PLAYER_MAX_VELOCITY = 2500;
+const JUMP_VELOCITY = 1800 * 0.9 * -1;
+const SPEED_FALL_VELOCITY = 1800 * 0.75;
+const JUMP_INCREASE_INCREMENT = -95;
+const JUMP_INCREASE_THRESHOLD = -250;
+
+// Player hitboxes as [left, right, height], matching PhysicsManager.resizeBodyToMatchFrame
+const RUNNING_BOX = [PLAYER_X + 25, PLAYER_X + 88 - 15, 94 - 4];
+const DUCKING_BOX = [PLAYER_X + 25, PLAYER_X + 118 - 35, 60 - 6];
+
+const BIRD_SPAWN_SPEED = 12;
+const BIRD_Y = [225, 250, 275];
+const BIRD_Y_MOBILE = [225, 275];
+const BIRD_SPEED_OFFSETS = [0.8, -0.8];
+const BIRD_SIZE = [92, 68];
+const BIRD_MIN_GAP = 120;
+
+const CACTUS_Y = 327;
+const CACTUS_SIZES = [1, 2, 3];
+const CACTUS_MIN_GAP = 100;
+const CACTUS_BORDER = 2;
+
+const OBSTACLE_TYPES = {
+  bird: { frame: 'bird' },
+  small: { frame: 'cactus-small', sizingSpeed: 10, sizingSpeedMobile: 8, size: [34, 70] },
+  large: { frame: 'cactus-large', sizingSpeed: 11, sizingSpeedMobile: 9, size: [50, 100] }
+};
+
+type ObstacleType = keyof typeof OBSTACLE_TYPES;
+
+// Input codes logged by the client each time the held input changes
+export const REPLAY_INPUT_NONE = 0;
+export const REPLAY_INPUT_JUMP = 1;
+export const REPLAY_INPUT_DUCK = 2;
+
+export type ReplayLog = {
+  frames: number;
+  inputs: [number, number][];
+  mobile?: boolean;
+  firstObstacleMobile?: boolean; // mode the first obstacle was spawned in, fixed when the run started
+};
+
+export type ReplayResult = {
+  verified: boolean;
+  replayScore: number | null;
+  frames: number;
+  reason?: string;
+};
+
+type SimObstacle = {
+  type: ObstacleType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  gap: number;
+  speedOffset: number;
+  visible: boolean;
+};
+
+/**
+ * Port of Phaser.Math.RandomDataGenerator, so a seed produces the same
+ * obstacle sequence here as in the browser
+ */
+export class SeededRandom {
+  private c = 1;
+  private s0 = 0;
+  private s1 = 0;
+  private s2 = 0;
+  private n = 0;
+
+  constructor(seed: string) {
+    this.sow([seed]);
+  }
+
+  private rnd(): number {
+    const t = 2091639 * this.s0 + this.c * 2.3283064365386963e-10; // 2^-32
+    this.c = t | 0;
+    this.s0 = this.s1;
+    this.s1 = this.s2;
+    this.s2 = t - this.c;
+    return this.s2;
+  }
+
+  private hash(data: string): number {
+    let h: number;
+    let n = this.n;
+
+    for (let i = 0; i < data.length; i++) {
+      n += data.charCodeAt(i);
+      h = 0.02519603282416938 * n;
+      n = h >>> 0;
+      h -= n;
+      h *= n;
+      n = h >>> 0;
+      h -= n;
+      n += h * 0x100000000; // 2^32
+    }
+
+    this.n = n;
+    return (n >>> 0) * 2.3283064365386963e-10; // 2^-32
+  }
+
+  sow(seeds: string[]) {
+    this.n = 0xefc8249d;
+    this.s0 = this.hash(' ');
+    this.s1 = this.hash(' ');
+    this.s2 = this.hash(' ');
+    this.c = 1;
+
+    for (const seed of seeds) {
+      this.s0 -= this.hash(seed);
+      this.s0 += ~~(this.s0 < 0);
+      this.s1 -= this.hash(seed);
+      this.s1 += ~~(this.s1 < 0);
+      this.s2 -= this.hash(seed);
+      this.s2 += ~~(this.s2 < 0);
+    }
+  }
+
+  frac(): number {
+    return this.rnd() + (this.rnd() * 0x200000 | 0) * 1.1102230246251565e-16; // 2^-53
+  }
+
+  between(min: number, max: number): number {
+    return Math.floor(this.frac() * (max - min + 1) + min);
+  }
+
+  pick<T>(array: T[]): T {
+    return array[this.between(0, array.length - 1)];
+  }
+}
+
+/**
+ * Check a log is well-formed before spending CPU on it
+ */
+function isValidLog(log: ReplayLog | undefined, maxFrames: number): string | null {
+  if (!log || typeof log !== 'object') return 'missing_log';
+  if (!Number.isInteger(log.frames) || log.frames <= 0) return 'malformed_log';
+  if (log.frames > maxFrames) return `log_exceeds_elapsed_time: ${log.frames} > ${maxFrames} frames`;
+  if (!Array.isArray(log.inputs) || log.inputs.length > REPLAY_MAX_INPUTS) return 'malformed_log';
+
+  let lastFrame = -1;
+  for (const entry of log.inputs) {
+    if (!Array.isArray(entry) || entry.length !== 2) return 'malformed_log';
+    const [frame, code] = entry;
+    if (!Number.isInteger(frame) || frame < lastFrame || frame > log.frames) return 'malformed_log';
+    if (code !== REPLAY_INPUT_NONE && code !== REPLAY_INPUT_JUMP && code !== REPLAY_INPUT_DUCK) return 'malformed_log';
+    lastFrame = frame;
+  }
+
+  return null;
+}
+
+/**
+ * Replay a run headlessly and return the frame and score at which the
+ * player first hits an obstacle, or null if the run never crashes
+ */
+export function simulateRun(seed: string, log: ReplayLog): { frames: number; score: number } | null {
+  const random = new SeededRandom(seed);
+  const mobile = log.mobile === true;
+  const firstObstacleMobile = log.firstObstacleMobile === undefined ? mobile : log.firstObstacleMobile === true;
+  const width = mobile ? GAME_WIDTH_MOBILE : GAME_WIDTH;
+  const maxSpeed = mobile ? GAME_SPEED_MAX / MOBILE_SPEED_COEFFICIENT : GAME_SPEED_MAX;
+  let speed = mobile ? GAME_SPEED_INITIAL / MOBILE_SPEED_COEFFICIENT : GAME_SPEED_INITIAL;
+  const initialSpeed = speed;
+  let distance = 0;
+
+  let bottom = FLOOR_Y;
+  let velocity = 0;
+  let ducking = false;
+  let input = REPLAY_INPUT_NONE;
+  let inputIndex = 0;
+
+  let obstacles: SimObstacle[] = [];
+  let history: ObstacleType[] = [];
+
+  const getGap = (obstacleWidth: number, minGap: number) => {
+    const min = Math.round(obstacleWidth * speed + minGap);
+    const max = Math.round(min * GAP_MAX_MULTIPLIER);
+    return random.between(min, max);
+  };
+
+  // Same draw order as Obstacles.spawnItem
+  const spawn = (spawnSpeed: number, spawnMobile: boolean) => {
+    let type: ObstacleType;
+    do {
+      type = spawnSpeed > BIRD_SPAWN_SPEED
+        ? random.pick<ObstacleType>(['bird', 'small', 'large'])
+        : random.pick<ObstacleType>(['small', 'large']);
+    } while (history.length >= MAX_DUPLICATION && history.every(previous => previous === type));
+
+    history.push(type);
+    if (history.length > MAX_DUPLICATION) {
+      history = history.slice(-MAX_DUPLICATION);
+    }
+
+    if (type === 'bird') {
+      const y = random.pick(spawnMobile ? BIRD_Y_MOBILE : BIRD_Y);
+      const speedOffset = random.pick(BIRD_SPEED_OFFSETS);
+      const [birdWidth, birdHeight] = BIRD_SIZE;
+      obstacles.push({
+        type, x: width, y, width: birdWidth, height: birdHeight,
+        gap: getGap(birdWidth, BIRD_MIN_GAP), speedOffset, visible: true
+      });
+      return;
+    }
+
+    const cactus = OBSTACLE_TYPES[type];
+    const sizingSpeed = spawnMobile ? cactus.sizingSpeedMobile : cactus.sizingSpeed;
+    const size = spawnSpeed > sizingSpeed ? random.pick(CACTUS_SIZES) : 1;
+    const [unitWidth, cactusHeight] = cactus.size;
+    const cactusWidth = unitWidth * size;
+    obstacles.push({
+      type, x: width, y: CACTUS_Y, width: cactusWidth, height: cactusHeight,
+      gap: getGap(cactusWidth, CACTUS_MIN_GAP), speedOffset: 0, visible: true
+    });
+  };
+
+  const hits = (obstacle: SimObstacle) => {
+    const [left, right, height] = ducking ? DUCKING_BOX : RUNNING_BOX;
+    const top = bottom - height;
+
+    let obstacleLeft = obstacle.x;
+    let obstacleRight = obstacle.x + obstacle.width;
+    let obstacleTop = obstacle.y - obstacle.height;
+    if (obstacle.type !== 'bird') {
+      obstacleLeft += CACTUS_BORDER;
+      obstacleRight -= CACTUS_BORDER;
+      obstacleTop += CACTUS_BORDER;
+    }
+
+    return !(right <= obstacleLeft || bottom <= obstacleTop || left >= obstacleRight || top >= obstacle.y);
+  };
+
+  const lastFrame = log.frames + REPLAY_FRAME_SLACK;
+  for (let frame = 0; frame <= lastFrame; frame++) {
+    if (frame === FIRST_OBSTACLE_FRAME) {
+      spawn(initialSpeed, firstObstacleMobile);
+    }
+
+    // Physics step, then overlap against where obstacles were drawn last frame
+    velocity = Math.max(-PLAYER_MAX_VELOCITY, Math.min(PLAYER_MAX_VELOCITY, velocity + PLAYER_GRAVITY * FRAME_SECONDS));
+    bottom += velocity * FRAME_SECONDS;
+    const onFloor = bottom >= FLOOR_Y;
+    if (onFloor) {
+      bottom = FLOOR_Y;
+      velocity = 0;
+    }
+
+    if (obstacles.some(obstacle => hits(obstacle))) {
+      return { frames: frame, score: Math.ceil(distance * GAME_SCORE_COEFFICIENT) };
+    }
+
+    // Player input, as in InputManager.update
+    while (inputIndex < log.inputs.length && log.inputs[inputIndex][0] <= frame) {
+      input = log.inputs[inputIndex][1];
+      inputIndex++;
+    }
+
+    ducking = false;
+    if (onFloor) {
+      if (input === REPLAY_INPUT_DUCK) {
+        ducking = true;
+      } else if (input === REPLAY_INPUT_JUMP) {
+        velocity = JUMP_VELOCITY;
+      }
+    } else if (input === REPLAY_INPUT_DUCK) {
+      velocity = SPEED_FALL_VELOCITY;
+    } else if (input === REPLAY_INPUT_JUMP && velocity < JUMP_INCREASE_THRESHOLD) {
+      velocity += JUMP_INCREASE_INCREMENT;
+    }
+
+    // Speed curve and horizon, as in GameScene.update
+    if (speed < maxSpeed) {
+      speed += GAME_ACCELERATION;
+    } else {
+      speed = maxSpeed;
+    }
+    distance += speed;
+
+    for (const obstacle of obstacles) {
+      obstacle.x -= speed + obstacle.speedOffset;
+      if (obstacle.x + obstacle.width < 0) {
+        obstacle.visible = false;
+      }
+    }
+
+    const lastItem = obstacles[obstacles.length - 1];
+    if (lastItem && lastItem.x + lastItem.width + lastItem.gap < width) {
+      obstacles = obstacles.filter(obstacle => obstacle.visible);
+      spawn(speed, mobile);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Replay a logged run from its server-issued seed and compare the
+ * recomputed score with the one the client claimed
+ * @param maxFrames Most frames the run could have lasted in server-side time
+ */
+export function verifyReplay(
+  seed: string | null,
+  log: ReplayLog | undefined,
+  claimedScore: number,
+  maxFrames: number
+): ReplayResult {
+  if (!seed) {
+    return { verified: false, replayScore: null, frames: 0, reason: 'missing_seed' };
+  }
+
+  const invalid = isValidLog(log, maxFrames);
+  if (invalid || !log) {
+    return { verified: false, replayScore: null, frames: 0, reason: invalid || 'missing_log' };
+  }
+
+  const crash = simulateRun(seed, log);
+  if (!crash) {
+    return { verified: false, replayScore: null, frames: log.frames, reason: 'no_collision' };
+  }
+
+  if (Math.abs(crash.score - claimedScore) > REPLAY_SCORE_TOLERANCE) {
+    return {
+      verified: false,
+      replayScore: crash.score,
+      frames: crash.frames,
+      reason: `score_mismatch: claimed ${claimedScore}, replayed ${crash.score}`
+    };
+  }
+
+  return { verified: true, replayScore: crash.score, frames: crash.frames };
+}
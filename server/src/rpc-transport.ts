@@ -0,0 +1,319 @@
+// server/src/rpc-transport.ts
+import dotenv from 'dotenv';
+import { Chain, custom, http, keccak256, Transport } from 'viem';
+import { Logger } from 'winston';
+
+dotenv.config();
+
+// Configurable constants
+const RPC_TIMEOUT = parseInt(process.env.RPC_TIMEOUT || '30000'); // ms per request to one endpoint
+const RPC_MAX_ATTEMPTS = parseInt(process.env.RPC_MAX_ATTEMPTS || '3'); // per request, across endpoints
+const RPC_RETRY_DELAY = parseInt(process.env.RPC_RETRY_DELAY || '1000'); // ms before retrying when only one endpoint is left
+const RPC_FAILURE_THRESHOLD = parseInt(process.env.RPC_FAILURE_THRESHOLD || '3'); // consecutive failures before an endpoint cools down
+const RPC_COOLDOWN_MS = parseInt(process.env.RPC_COOLDOWN_MS || '30000');
+const RPC_SWITCH_MARGIN = parseInt(process.env.RPC_SWITCH_MARGIN || '25'); // score lead another endpoint needs before traffic moves to it
+const RPC_LATENCY_TARGET_MS = parseInt(process.env.RPC_LATENCY_TARGET_MS || '500'); // latency at or below this scores full marks
+const RPC_PROBE_INTERVAL = parseInt(process.env.RPC_PROBE_INTERVAL || '15000'); // ms between health probes of every endpoint
+const RPC_MAX_BLOCK_LAG = parseInt(process.env.RPC_MAX_BLOCK_LAG || '10'); // blocks behind the best endpoint before a probe counts as failed
+const HEALTH_WINDOW = 50; // outcomes kept per endpoint for the error rate
+const LATENCY_SMOOTHING = 0.2;
+
+const DEFAULT_RPC_URL = 'https://dream-rpc.somnia.network';
+
+export type RpcEndpointHealth = {
+  endpoint: string;            // host only; URLs often carry API keys
+  active: boolean;             // currently receiving traffic
+  score: number;               // 0-100 from error rate and latency
+  latencyMs: number | null;    // smoothed
+  errorRate: number;           // over the last HEALTH_WINDOW requests
+  consecutiveFailures: number;
+  coolingDownUntil: number | null;
+  blockNumber: number | null;  // head at the last probe
+  lastError: string | null;
+};
+
+type Endpoint = {
+  url: string;
+  label: string;
+  requests: Map<number, (args: { method: string; params?: any }) => Promise<any>>; // by batch size, 0 unbatched
+  latencyMs: number | null;
+  outcomes: boolean[];
+  consecutiveFailures: number;
+  coolingDownUntil: number;
+  blockNumber: number | null;
+  lastError: string | null;
+};
+
+/**
+ * Configured RPC endpoints: RPC_URLS (comma-separated), else RPC_URL
+ */
+export function getRpcUrls(): string[] {
+  const urls = (process.env.RPC_URLS || process.env.RPC_URL || DEFAULT_RPC_URL)
+    .split(',')
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+  return Array.from(new Set(urls));
+}
+
+function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Whether an error means the endpoint is unhealthy. Errors the node answered
+ * with (reverts, nonce errors) are the request's fault and are not retried.
+ */
+function isEndpointFailure(error: any): boolean {
+  if (error?.name === 'HttpRequestError' || error?.name === 'TimeoutError') return true;
+  return error?.code === -32005 || error?.status === 429; // rate limited
+}
+
+/**
+ * Routes JSON-RPC requests over a list of endpoints. Traffic sticks to one
+ * endpoint so nonce reads and the sends that follow them see the same
+ * mempool; it moves when that endpoint cools down after RPC_FAILURE_THRESHOLD
+ * consecutive failures, or when another scores RPC_SWITCH_MARGIN better.
+ * Failed requests are retried on the next best endpoint, writes included:
+ * a signed transaction sent twice has the same hash.
+ *
+ * Endpoints are scored on their recent error rate and smoothed latency, and
+ * probed every RPC_PROBE_INTERVAL so idle and cooling ones are rescored too.
+ */
+export class RpcRouter {
+  readonly chain: Chain;
+  private logger: Logger;
+  private endpoints: Endpoint[];
+  private current: number = 0;
+  private probeTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param urls Endpoints to route over, by default the chain's RPC URLs
+   */
+  constructor(logger: Logger, chain: Chain, urls: readonly string[] = chain.rpcUrls.default.http) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for ${chain.name}`);
+    }
+    this.logger = logger;
+    this.chain = chain;
+    this.endpoints = urls.map(url => ({
+      url,
+      label: endpointLabel(url),
+      requests: new Map(),
+      latencyMs: null,
+      outcomes: [],
+      consecutiveFailures: 0,
+      coolingDownUntil: 0,
+      blockNumber: null,
+      lastError: null
+    }));
+  }
+
+  /**
+   * A viem transport over the routed endpoints
+   * @param options.batchSize Batch concurrent calls into JSON-RPC batches of this size
+   */
+  createTransport(options: { batchSize?: number } = {}): Transport {
+    const batchSize = options.batchSize ?? 0;
+    // The router retries across endpoints itself
+    return custom(
+      { request: ({ method, params }: { method: string; params?: any }) => this.request(method, params, batchSize) },
+      { key: 'rpcRouter', name: 'RPC Router', retryCount: 0 }
+    );
+  }
+
+  startProbing(onHealth?: (health: RpcEndpointHealth[]) => void) {
+    this.stopProbing();
+    this.logger.info(`RPC endpoints: ${this.endpoints.map(endpoint => endpoint.label).join(', ')}`);
+
+    const probe = async () => {
+      try {
+        await this.probe();
+        onHealth?.(this.getHealth());
+      } catch (error) {
+        this.logger.error('Error probing RPC endpoints:', error);
+      }
+      if (this.probeTimer) {
+        this.probeTimer = setTimeout(probe, RPC_PROBE_INTERVAL);
+      }
+    };
+    this.probeTimer = setTimeout(probe, 0);
+  }
+
+  stopProbing() {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint, index) => ({
+      endpoint: endpoint.label,
+      active: index === this.current,
+      score: this.score(endpoint),
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Math.round(this.errorRate(endpoint) * 1000) / 1000,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      coolingDownUntil: endpoint.coolingDownUntil > now ? endpoint.coolingDownUntil : null,
+      blockNumber: endpoint.blockNumber,
+      lastError: endpoint.lastError
+    }));
+  }
+
+  private async request(method: string, params: any, batchSize: number): Promise<any> {
+    const tried = new Set<number>();
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < Math.max(RPC_MAX_ATTEMPTS, 1); attempt++) {
+      const index = this.select(tried);
+      if (tried.has(index)) {
+        // Every endpoint has failed this request; give the last one a moment
+        await new Promise(resolve => setTimeout(resolve, RPC_RETRY_DELAY));
+      }
+      tried.add(index);
+
+      const endpoint = this.endpoints[index];
+      const startedAt = Date.now();
+      try {
+        const result = await this.endpointRequest(endpoint, batchSize)({ method, params });
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error: any) {
+        // A retried send the first endpoint did pass on is already in the mempool
+        if (method === 'eth_sendRawTransaction' && attempt > 0 && /already known/i.test(error?.details || error?.message || '')) {
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          return keccak256(params[0]);
+        }
+        if (!isEndpointFailure(error)) {
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+        this.recordFailure(index, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private endpointRequest(endpoint: Endpoint, batchSize: number) {
+    let request = endpoint.requests.get(batchSize);
+    if (!request) {
+      request = http(endpoint.url, {
+        timeout: RPC_TIMEOUT,
+        retryCount: 0,
+        ...(batchSize > 0 ? { batch: { batchSize } } : {})
+      })({ chain: this.chain, retryCount: 0 }).request as (args: { method: string; params?: any }) => Promise<any>;
+      endpoint.requests.set(batchSize, request);
+    }
+    return request;
+  }
+
+  /**
+   * The endpoint for the next attempt: the sticky one unless it is cooling
+   * down or clearly outscored, otherwise the best one not yet tried
+   */
+  private select(tried: Set<number>): number {
+    const now = Date.now();
+    const ranked = this.endpoints
+      .map((endpoint, index) => ({ index, score: this.score(endpoint), cooling: endpoint.coolingDownUntil > now }))
+      .sort((a, b) => Number(a.cooling) - Number(b.cooling) || b.score - a.score);
+
+    if (tried.size === 0) {
+      const current = ranked.find(candidate => candidate.index === this.current)!;
+      const best = ranked[0];
+      if (best.index !== this.current && !best.cooling && (current.cooling || best.score - current.score >= RPC_SWITCH_MARGIN)) {
+        this.switchTo(best.index, current.cooling ? 'cooling down' : `score ${current.score} vs ${best.score}`);
+      }
+      return this.current;
+    }
+
+    const next = ranked.find(candidate => !tried.has(candidate.index));
+    return next ? next.index : ranked[0].index;
+  }
+
+  private switchTo(index: number, reason: string) {
+    this.logger.warn(`RPC traffic moving from ${this.endpoints[this.current].label} to ${this.endpoints[index].label} (${reason})`);
+    this.current = index;
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number) {
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    this.recordOutcome(endpoint, true);
+
+    if (endpoint.coolingDownUntil > 0) {
+      this.logger.info(`RPC endpoint ${endpoint.label} recovered`);
+    }
+    endpoint.consecutiveFailures = 0;
+    endpoint.coolingDownUntil = 0;
+  }
+
+  private recordFailure(index: number, error: any) {
+    const endpoint = this.endpoints[index];
+    this.recordOutcome(endpoint, false);
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = (error?.shortMessage || error?.message || String(error)).slice(0, 200);
+
+    if (endpoint.consecutiveFailures >= RPC_FAILURE_THRESHOLD && endpoint.coolingDownUntil <= Date.now()) {
+      endpoint.coolingDownUntil = Date.now() + RPC_COOLDOWN_MS;
+      this.logger.warn(`RPC endpoint ${endpoint.label} cooling down for ${RPC_COOLDOWN_MS}ms after ${endpoint.consecutiveFailures} failures: ${endpoint.lastError}`);
+    }
+  }
+
+  private recordOutcome(endpoint: Endpoint, success: boolean) {
+    endpoint.outcomes.push(success);
+    if (endpoint.outcomes.length > HEALTH_WINDOW) {
+      endpoint.outcomes.shift();
+    }
+  }
+
+  private errorRate(endpoint: Endpoint): number {
+    if (endpoint.outcomes.length === 0) return 0;
+    return endpoint.outcomes.filter(success => !success).length / endpoint.outcomes.length;
+  }
+
+  private score(endpoint: Endpoint): number {
+    const latency = endpoint.latencyMs ?? RPC_LATENCY_TARGET_MS;
+    const latencyFactor = Math.min(1, RPC_LATENCY_TARGET_MS / Math.max(latency, 1));
+    return Math.round(100 * (1 - this.errorRate(endpoint)) * latencyFactor);
+  }
+
+  /**
+   * Ask every endpoint for its head; slow, failing or lagging ones lose score
+   */
+  private async probe() {
+    const results = await Promise.all(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      try {
+        const blockNumber = Number(BigInt(await this.endpointRequest(endpoint, 0)({ method: 'eth_blockNumber' })));
+        return { endpoint, blockNumber, latencyMs: Date.now() - startedAt, error: null };
+      } catch (error) {
+        return { endpoint, blockNumber: null, latencyMs: 0, error };
+      }
+    }));
+
+    const head = Math.max(...results.map(result => result.blockNumber ?? 0));
+    for (const result of results) {
+      const index = this.endpoints.indexOf(result.endpoint);
+      if (result.blockNumber === null) {
+        this.recordFailure(index, result.error);
+        continue;
+      }
+
+      result.endpoint.blockNumber = result.blockNumber;
+      if (head - result.blockNumber > RPC_MAX_BLOCK_LAG) {
+        // A stale node hands out stale nonces and balances
+        this.recordFailure(index, new Error(`${head - result.blockNumber} blocks behind`));
+      } else {
+        this.recordSuccess(result.endpoint, result.latencyMs);
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+// server/src/score-validation.ts
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Runner speed curve, mirrored from src/config/game/scenes/game.js.
+// The client steps the run at Phaser's 60 fps physics rate whatever the display's
+// refresh rate (GameScene.update), and speed grows by ACCELERATION every step
+// until MAX; score = ceil(distance * COEFFICIENT).
+export const GAME_STEPS_PER_SECOND = 60;
+export const GAME_SPEED_INITIAL = 10;
+export const GAME_SPEED_MAX = 17;
+export const GAME_ACCELERATION = 0.001;
+export const GAME_SCORE_COEFFICIENT = 0.02;
+
+// Configurable constants
+const SCORE_TOLERANCE = parseFloat(process.env.SCORE_TOLERANCE || '1.05');
+const SCORE_GRACE_POINTS = parseInt(process.env.SCORE_GRACE_POINTS || '5');
+const MAX_JUMPS_PER_SECOND = parseFloat(process.env.MAX_JUMPS_PER_SECOND || '3');
+const MIN_JUMPS_SCORE_INTERVAL = parseInt(process.env.MIN_JUMPS_SCORE_INTERVAL || '150'); // expect at least one jump per this many points
+
+export type ScoreVerdict = 'ok' | 'flagged' | 'rejected';
+
+export type GameResult = {
+  finalScore: number;
+  durationMs: number;
+  jumpsCount: number;
+};
+
+export type ScoreValidation = {
+  verdict: ScoreVerdict;
+  reasons: string[];
+  maxPlausibleScore: number;
+};
+
+/**
+ * Highest score reachable after a number of frames on the fastest (desktop) speed curve
+ */
+export function maxScoreForFrames(frames: number): number {
+  const n = Math.max(0, Math.floor(frames));
+  const framesToMax = Math.ceil((GAME_SPEED_MAX - GAME_SPEED_INITIAL) / GAME_ACCELERATION);
+
+  let distance: number;
+  if (n <= framesToMax) {
+    distance = n * GAME_SPEED_INITIAL + GAME_ACCELERATION * n * (n + 1) / 2;
+  } else {
+    distance = framesToMax * GAME_SPEED_INITIAL
+      + GAME_ACCELERATION * framesToMax * (framesToMax + 1) / 2
+      + (n - framesToMax) * GAME_SPEED_MAX;
+  }
+
+  return Math.ceil(distance * GAME_SCORE_COEFFICIENT);
+}
+
+/**
+ * Most steps a client could have run in the given server-side time
+ */
+export function maxFramesForDuration(durationMs: number): number {
+  return Math.ceil((Math.max(0, durationMs) / 1000) * GAME_STEPS_PER_SECOND);
+}
+
+/**
+ * Highest score a player could plausibly reach in the given server-side time
+ */
+export function maxPlausibleScore(durationMs: number): number {
+  const frames = maxFramesForDuration(durationMs);
+  return Math.ceil(maxScoreForFrames(frames) * SCORE_TOLERANCE) + SCORE_GRACE_POINTS;
+}
+
+/**
+ * Check a finished game against elapsed time, jump count and the speed curve.
+ * Impossible scores are rejected; suspicious jump patterns are flagged.
+ */
+export function validateGameResult(result: GameResult): ScoreValidation {
+  const reasons: string[] = [];
+  let verdict: ScoreVerdict = 'ok';
+
+  const finalScore = Number(result.finalScore);
+  const durationSeconds = Math.max(0, result.durationMs) / 1000;
+  const maxScore = maxPlausibleScore(result.durationMs);
+
+  if (!Number.isFinite(finalScore) || !Number.isInteger(finalScore) || finalScore < 0) {
+    return { verdict: 'rejected', reasons: ['score_not_a_positive_integer'], maxPlausibleScore: maxScore };
+  }
+
+  // Score can't outrun the speed curve
+  if (finalScore > maxScore) {
+    verdict = 'rejected';
+    reasons.push(`score_exceeds_speed_curve: ${finalScore} > ${maxScore} in ${durationSeconds.toFixed(1)}s`);
+  }
+
+  // Jumps take time in the air
+  const maxJumps = Math.ceil(durationSeconds * MAX_JUMPS_PER_SECOND) + 1;
+  if (result.jumpsCount > maxJumps) {
+    if (verdict === 'ok') verdict = 'flagged';
+    reasons.push(`too_many_jumps: ${result.jumpsCount} > ${maxJumps}`);
+  }
+
+  // Cacti can't be ducked, so long runs need jumps
+  const minJumps = Math.floor(finalScore / MIN_JUMPS_SCORE_INTERVAL);
+  if (result.jumpsCount < minJumps) {
+    if (verdict === 'ok') verdict = 'flagged';
+    reasons.push(`too_few_jumps: ${result.jumpsCount} < ${minJumps}`);
+  }
+
+  return { verdict, reasons, maxPlausibleScore: maxScore };
+}
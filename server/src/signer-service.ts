@@ -0,0 +1,209 @@
+// server/src/signer-service.ts
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import express from 'express';
+import { TransactionSerializable, parseTransaction } from 'viem';
+import { LocalAccount } from 'viem/accounts';
+import winston, { Logger } from 'winston';
+import { loadDeployments } from './deployments';
+import { createSigner, SignerBackendName } from './signer';
+
+dotenv.config();
+
+/**
+ * Stand-in for the external signing service used by the remote signer backend.
+ * It holds the relay, recovery and treasury keys (from the same local or
+ * keystore configuration the relays would use) so the game servers don't, and
+ * signs only for the chains in the deployment registry. Run it next to the
+ * relays in development and tests; production points SIGNER_URL at the real
+ * service.
+ *
+ * Protocol (JSON, Authorization: Bearer SIGNER_AUTH_TOKEN):
+ *   GET  /accounts?pool=relay|recovery -> { addresses }
+ *   POST /sign-transaction { address, transaction: unsigned serialized hex } -> { signedTransaction }
+ *   POST /sign-message { address, message } -> { signature }
+ *   POST /sign-typed-data { address, typedData } -> { signature }
+ */
+
+// Configurable constants
+const SIGNER_SERVICE_HOST = process.env.SIGNER_SERVICE_HOST || '127.0.0.1';
+const SIGNER_SERVICE_PORT = parseInt(process.env.SIGNER_SERVICE_PORT || '8600');
+const SIGNER_SERVICE_BACKEND = (process.env.SIGNER_SERVICE_BACKEND || undefined) as SignerBackendName | undefined;
+const SIGNER_AUTH_TOKEN = process.env.SIGNER_AUTH_TOKEN || '';
+
+const POOL_COUNTS: Record<string, number> = {
+  relay: parseInt(process.env.WALLET_COUNT || '3'),
+  recovery: parseInt(process.env.RECOVERY_WALLET_COUNT || '3')
+};
+
+export type SignerServiceOptions = {
+  chainIds: number[];             // chains the service signs transactions for
+  backend?: SignerBackendName;    // local or keystore; picked from the keys configured if unset
+  authToken?: string;             // required as a bearer token when set
+  logger: Logger;
+};
+
+/**
+ * Load every pool's keys and build the service's HTTP app. The keys are
+ * always held in this process, which is the service's job, so the servers'
+ * production guard against in-process keys doesn't apply.
+ */
+export async function createSignerService({ chainIds, backend, authToken = '', logger }: SignerServiceOptions): Promise<express.Express> {
+  if (backend === 'remote') {
+    throw new Error('The signer service must hold its keys; set SIGNER_SERVICE_BACKEND to local or keystore');
+  }
+
+  const allowedChainIds = new Set(chainIds);
+  const accounts: Map<string, LocalAccount> = new Map();
+  const poolAddresses: Map<string, string[]> = new Map();
+
+  // Load every pool's keys with a local backend
+  for (const poolName of Object.keys(POOL_COUNTS)) {
+    const signer = createSigner(poolName, logger, backend, true);
+    const addresses: string[] = [];
+
+    try {
+      for (const spec of await signer.getConfiguredSpecs(POOL_COUNTS[poolName])) {
+        const account = signer.resolveAccount(spec);
+        accounts.set(account.address.toLowerCase(), account);
+        addresses.push(account.address);
+      }
+    } catch (error) {
+      logger.error(`Failed to load ${poolName} keys:`, error);
+    }
+
+    poolAddresses.set(poolName, addresses);
+    logger.info(`Loaded ${addresses.length} ${poolName} keys with the ${signer.name} backend`);
+
+    if (poolName === 'relay') {
+      const treasury = signer.getTreasuryAccount();
+      if (treasury) {
+        accounts.set(treasury.address.toLowerCase(), treasury);
+        logger.info(`Loaded treasury ${treasury.address}; set TREASURY_ADDRESS to it on the relay`);
+      }
+    }
+  }
+
+  const isAuthorized = (header: string | undefined): boolean => {
+    if (!authToken) return true;
+
+    const expected = Buffer.from(`Bearer ${authToken}`);
+    const received = Buffer.from(header || '');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  };
+
+  const getAccount = (address: unknown): LocalAccount => {
+    const account = typeof address === 'string' ? accounts.get(address.toLowerCase()) : undefined;
+    if (!account) {
+      throw Object.assign(new Error(`No key for ${address}`), { status: 404 });
+    }
+    return account;
+  };
+
+  const app = express();
+  app.use(express.json({ limit: '256kb' }));
+
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok', accounts: accounts.size });
+  });
+
+  app.use((req, res, next) => {
+    if (!isAuthorized(req.headers.authorization)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  });
+
+  app.get('/accounts', (req, res) => {
+    const addresses = poolAddresses.get(String(req.query.pool || ''));
+    if (!addresses) {
+      res.status(404).json({ error: `Unknown pool ${req.query.pool}` });
+      return;
+    }
+    res.json({ addresses });
+  });
+
+  app.post('/sign-transaction', async (req, res, next) => {
+    try {
+      const account = getAccount(req.body.address);
+      const transaction: TransactionSerializable = parseTransaction(req.body.transaction);
+
+      if (transaction.chainId === undefined || !allowedChainIds.has(transaction.chainId)) {
+        res.status(400).json({ error: `Refusing to sign for chain ${transaction.chainId}` });
+        return;
+      }
+
+      const signedTransaction = await account.signTransaction(transaction);
+      logger.info(`Signed transaction for ${account.address} to ${transaction.to} at nonce ${transaction.nonce}`);
+      res.json({ signedTransaction });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/sign-message', async (req, res, next) => {
+    try {
+      const account = getAccount(req.body.address);
+      const signature = await account.signMessage({ message: req.body.message });
+      logger.info(`Signed message for ${account.address}`);
+      res.json({ signature });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/sign-typed-data', async (req, res, next) => {
+    try {
+      const account = getAccount(req.body.address);
+      const signature = await account.signTypedData(req.body.typedData);
+      logger.info(`Signed typed data for ${account.address}`);
+      res.json({ signature });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.use((error: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    const status = error.status || 400;
+    if (status >= 500) {
+      logger.error('Signing request failed:', error);
+    }
+    res.status(status).json({ error: error.message || 'Signing failed' });
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  const logger = winston.createLogger({
+    level: process.env.LOG_LEVEL || 'info',
+    format: winston.format.combine(
+      winston.format.timestamp(),
+      winston.format.json()
+    ),
+    transports: [
+      new winston.transports.Console(),
+      new winston.transports.File({ filename: 'signer-service.log' })
+    ]
+  });
+
+  createSignerService({
+    chainIds: loadDeployments().chainIds(),
+    backend: SIGNER_SERVICE_BACKEND,
+    authToken: SIGNER_AUTH_TOKEN,
+    logger
+  })
+    .then(app => {
+      if (!SIGNER_AUTH_TOKEN) {
+        logger.warn('SIGNER_AUTH_TOKEN not set, accepting unauthenticated signing requests');
+      }
+      app.listen(SIGNER_SERVICE_PORT, SIGNER_SERVICE_HOST, () => {
+        logger.info(`Signer service listening on ${SIGNER_SERVICE_HOST}:${SIGNER_SERVICE_PORT}`);
+      });
+    })
+    .catch(error => {
+      logger.error('Failed to start signer service:', error);
+      process.exit(1);
+    });
+}
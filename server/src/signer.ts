@@ -0,0 +1,346 @@
+// server/src/signer.ts
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import { bytesToHex, keccak256, serializeTransaction } from 'viem';
+import { LocalAccount, mnemonicToAccount, privateKeyToAccount, toAccount } from 'viem/accounts';
+import { Logger } from 'winston';
+
+dotenv.config();
+
+// Configurable constants
+const SIGNER_TIMEOUT_MS = parseInt(process.env.SIGNER_TIMEOUT_MS || '10000');
+const ALLOW_IN_PROCESS_KEYS = process.env.ALLOW_IN_PROCESS_KEYS === 'true'; // let production relays sign with local or keystore keys
+
+export type SignerBackendName = 'local' | 'keystore' | 'remote';
+export type WalletSource = 'env' | 'mnemonic' | 'keystore' | 'remote';
+
+export type WalletSpec =
+  | { source: 'env'; keyRef: string }
+  | { source: 'mnemonic'; hdIndex: number }
+  | { source: 'keystore'; keyRef: string }
+  | { source: 'remote'; keyRef: string };
+
+/**
+ * Where a relay process gets its signing accounts. Accounts from every backend
+ * are viem LocalAccounts, so wallet clients use them the same way.
+ */
+export interface SignerBackend {
+  readonly name: SignerBackendName;
+  /** Whether this backend can sign for wallets registered with this source */
+  supports(source: WalletSource): boolean;
+  /** Wallets to register the first time a pool is used */
+  getConfiguredSpecs(count: number): Promise<WalletSpec[]>;
+  resolveAccount(spec: WalletSpec): LocalAccount;
+  /** Whether new wallets can be derived for rotation */
+  canDerive(): boolean;
+  /** Account that refills relay wallets, if one is configured */
+  getTreasuryAccount(): LocalAccount | null;
+}
+
+/**
+ * Decrypt a Web3 Secret Storage (v3) keystore
+ */
+export function decryptKeystore(keystore: any, password: string): `0x${string}` {
+  const cryptoParams = keystore.crypto || keystore.Crypto;
+  if (!cryptoParams || cryptoParams.cipher !== 'aes-128-ctr') {
+    throw new Error('Unsupported keystore cipher');
+  }
+
+  const kdfParams = cryptoParams.kdfparams;
+  const salt = Buffer.from(kdfParams.salt, 'hex');
+  let derivedKey: Buffer;
+
+  if (cryptoParams.kdf === 'scrypt') {
+    derivedKey = crypto.scryptSync(password, salt, kdfParams.dklen, {
+      N: kdfParams.n,
+      r: kdfParams.r,
+      p: kdfParams.p,
+      maxmem: 128 * kdfParams.n * kdfParams.r * 2
+    });
+  } else if (cryptoParams.kdf === 'pbkdf2' && kdfParams.prf === 'hmac-sha256') {
+    derivedKey = crypto.pbkdf2Sync(password, salt, kdfParams.c, kdfParams.dklen, 'sha256');
+  } else {
+    throw new Error(`Unsupported keystore kdf ${cryptoParams.kdf}`);
+  }
+
+  const ciphertext = Buffer.from(cryptoParams.ciphertext, 'hex');
+  const mac = keccak256(new Uint8Array(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])));
+  if (mac.slice(2).toLowerCase() !== String(cryptoParams.mac).toLowerCase()) {
+    throw new Error('Wrong keystore password');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(cryptoParams.cipherparams.iv, 'hex'));
+  const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return bytesToHex(new Uint8Array(privateKey));
+}
+
+/**
+ * Keystores in a file holding one keystore object or an array of them
+ */
+export function readKeystores(path: string): any[] {
+  const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+function envValue(key: string): string | undefined {
+  const value = process.env[key];
+  return value && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function keyToAccount(key: string): LocalAccount {
+  return privateKeyToAccount((key.startsWith('0x') ? key : `0x${key}`) as `0x${string}`);
+}
+
+/**
+ * Raw keys in the environment: a mnemonic (WALLET_MNEMONIC) or PRIVATE_KEY_n,
+ * with the treasury in TREASURY_PRIVATE_KEY. For development.
+ */
+export class LocalKeySigner implements SignerBackend {
+  readonly name = 'local';
+  private envPrefix: string;
+  private logger: Logger;
+
+  constructor(envPrefix: string, logger: Logger) {
+    this.envPrefix = envPrefix;
+    this.logger = logger;
+  }
+
+  supports(source: WalletSource): boolean {
+    return source === 'env' || source === 'mnemonic';
+  }
+
+  async getConfiguredSpecs(count: number): Promise<WalletSpec[]> {
+    const specs: WalletSpec[] = [];
+
+    if (this.canDerive()) {
+      for (let i = 0; i < count; i++) {
+        specs.push({ source: 'mnemonic', hdIndex: i });
+      }
+      return specs;
+    }
+
+    // The relay's keys are PRIVATE_KEY_n, the recovery server's RECOVERY_PRIVATE_KEY_n
+    for (let i = 1; i <= count; i++) {
+      const keyRef = `${this.envPrefix}PRIVATE_KEY_${i}`;
+      if (envValue(keyRef)) {
+        specs.push({ source: 'env', keyRef });
+      } else {
+        this.logger.warn(`Private key ${keyRef} not found or is empty`);
+      }
+    }
+    return specs;
+  }
+
+  resolveAccount(spec: WalletSpec): LocalAccount {
+    if (spec.source === 'mnemonic') {
+      const mnemonic = envValue(`${this.envPrefix}WALLET_MNEMONIC`);
+      if (!mnemonic) throw new Error(`${this.envPrefix}WALLET_MNEMONIC is not set`);
+      return mnemonicToAccount(mnemonic, { addressIndex: spec.hdIndex });
+    }
+
+    if (spec.source !== 'env') {
+      throw new Error(`The local signer cannot sign for ${spec.source} wallets`);
+    }
+
+    const key = envValue(spec.keyRef);
+    if (!key) throw new Error(`${spec.keyRef} is not set`);
+    return keyToAccount(key);
+  }
+
+  canDerive(): boolean {
+    return !!envValue(`${this.envPrefix}WALLET_MNEMONIC`);
+  }
+
+  getTreasuryAccount(): LocalAccount | null {
+    const key = envValue('TREASURY_PRIVATE_KEY');
+    return key ? keyToAccount(key) : null;
+  }
+}
+
+/**
+ * Encrypted v3 keystore files: WALLET_KEYSTORE_PATH holding one keystore or an
+ * array, unlocked with WALLET_KEYSTORE_PASSWORD. The treasury has its own file
+ * in TREASURY_KEYSTORE_PATH and TREASURY_KEYSTORE_PASSWORD.
+ */
+export class KeystoreSigner implements SignerBackend {
+  readonly name = 'keystore';
+  private envPrefix: string;
+  private keystoreCache: Map<string, `0x${string}`> = new Map(); // decrypting is slow
+
+  constructor(envPrefix: string) {
+    this.envPrefix = envPrefix;
+  }
+
+  supports(source: WalletSource): boolean {
+    return source === 'keystore';
+  }
+
+  async getConfiguredSpecs(count: number): Promise<WalletSpec[]> {
+    const path = envValue(`${this.envPrefix}WALLET_KEYSTORE_PATH`);
+    if (!path) throw new Error(`${this.envPrefix}WALLET_KEYSTORE_PATH is not set`);
+
+    return readKeystores(path).slice(0, count).map((_, i) => ({ source: 'keystore' as const, keyRef: `${path}#${i}` }));
+  }
+
+  resolveAccount(spec: WalletSpec): LocalAccount {
+    if (spec.source !== 'keystore') {
+      throw new Error(`The keystore signer cannot sign for ${spec.source} wallets`);
+    }
+
+    const password = envValue(`${this.envPrefix}WALLET_KEYSTORE_PASSWORD`);
+    if (password === undefined) throw new Error(`${this.envPrefix}WALLET_KEYSTORE_PASSWORD is not set`);
+    return privateKeyToAccount(this.unlock(spec.keyRef, password));
+  }
+
+  canDerive(): boolean {
+    return false;
+  }
+
+  getTreasuryAccount(): LocalAccount | null {
+    const path = envValue('TREASURY_KEYSTORE_PATH');
+    if (!path) return null;
+
+    const password = envValue('TREASURY_KEYSTORE_PASSWORD');
+    if (password === undefined) throw new Error('TREASURY_KEYSTORE_PASSWORD is not set');
+    return privateKeyToAccount(this.unlock(path.includes('#') ? path : `${path}#0`, password));
+  }
+
+  private unlock(keyRef: string, password: string): `0x${string}` {
+    let privateKey = this.keystoreCache.get(keyRef);
+    if (!privateKey) {
+      const [path, entry] = keyRef.split('#');
+      privateKey = decryptKeystore(readKeystores(path)[parseInt(entry || '0')], password);
+      this.keystoreCache.set(keyRef, privateKey);
+    }
+    return privateKey;
+  }
+}
+
+/**
+ * Keys held by an external signing service (SIGNER_URL, authenticated with
+ * SIGNER_AUTH_TOKEN). The process only knows addresses; every signature is a
+ * request to the service. See signer-service.ts for the protocol and a
+ * stand-in implementation. The treasury is TREASURY_ADDRESS.
+ */
+export class RemoteSigner implements SignerBackend {
+  readonly name = 'remote';
+  private poolName: string;
+  private url: string;
+  private authToken: string;
+
+  constructor(envPrefix: string, poolName: string) {
+    const url = envValue(`${envPrefix}SIGNER_URL`);
+    if (!url) throw new Error(`${envPrefix}SIGNER_URL is not set`);
+
+    this.poolName = poolName;
+    this.url = url.replace(/\/$/, '');
+    this.authToken = envValue(`${envPrefix}SIGNER_AUTH_TOKEN`) || '';
+  }
+
+  supports(source: WalletSource): boolean {
+    return source === 'remote';
+  }
+
+  async getConfiguredSpecs(count: number): Promise<WalletSpec[]> {
+    const { addresses } = await this.request('GET', `/accounts?pool=${this.poolName}`);
+    return (addresses as string[]).slice(0, count).map(address => ({ source: 'remote' as const, keyRef: address }));
+  }
+
+  resolveAccount(spec: WalletSpec): LocalAccount {
+    if (spec.source !== 'remote') {
+      throw new Error(`The remote signer cannot sign for ${spec.source} wallets`);
+    }
+    return this.toRemoteAccount(spec.keyRef as `0x${string}`);
+  }
+
+  canDerive(): boolean {
+    return false;
+  }
+
+  getTreasuryAccount(): LocalAccount | null {
+    const address = envValue('TREASURY_ADDRESS');
+    return address ? this.toRemoteAccount(address as `0x${string}`) : null;
+  }
+
+  private toRemoteAccount(address: `0x${string}`): LocalAccount {
+    return toAccount({
+      address,
+      signMessage: async ({ message }) => {
+        const signable = typeof message === 'string' || typeof message.raw === 'string'
+          ? message
+          : { raw: bytesToHex(message.raw) };
+        const { signature } = await this.request('POST', '/sign-message', { address, message: signable });
+        return signature;
+      },
+      signTransaction: async (transaction, options) => {
+        // The service receives the unsigned serialized transaction and returns it signed
+        const serializer = options?.serializer ?? serializeTransaction;
+        const unsigned = await serializer(transaction);
+        const { signedTransaction } = await this.request('POST', '/sign-transaction', { address, transaction: unsigned });
+        return signedTransaction;
+      },
+      signTypedData: async typedData => {
+        const { signature } = await this.request('POST', '/sign-typed-data', { address, typedData: toJson(typedData) });
+        return signature;
+      }
+    });
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: object): Promise<any> {
+    const response = await fetch(`${this.url}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.authToken}`
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(SIGNER_TIMEOUT_MS)
+    });
+
+    const result: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Signer ${path} failed with ${response.status}: ${result.error || response.statusText}`);
+    }
+    return result;
+  }
+}
+
+// Typed data may hold bigints, which JSON can't carry
+function toJson(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value, (_, item) => typeof item === 'bigint' ? item.toString() : item));
+}
+
+/**
+ * The signer backend a pool is configured with: SIGNER_BACKEND for the relay,
+ * RECOVERY_SIGNER_BACKEND for the recovery server. Without one, a configured
+ * keystore path selects the keystore backend and raw keys the local one.
+ * In production the servers only get the remote backend, so keys stay in the
+ * signing service, unless ALLOW_IN_PROCESS_KEYS is set.
+ * @param backend Backend to use regardless of configuration
+ * @param holdsKeys Set by the signing service, whose job is to hold the keys
+ */
+export function createSigner(poolName: string, logger: Logger, backend?: SignerBackendName, holdsKeys: boolean = false): SignerBackend {
+  const envPrefix = poolName === 'recovery' ? 'RECOVERY_' : '';
+  const name = backend
+    || envValue(`${envPrefix}SIGNER_BACKEND`)
+    || (envValue(`${envPrefix}WALLET_KEYSTORE_PATH`) ? 'keystore' : 'local');
+
+  if (!holdsKeys && name !== 'remote' && process.env.NODE_ENV === 'production') {
+    if (!ALLOW_IN_PROCESS_KEYS) {
+      throw new Error(`The ${poolName} pool would hold its keys in this process with the ${name} backend; use the remote signer in production or set ALLOW_IN_PROCESS_KEYS=true`);
+    }
+    logger.warn(`The ${poolName} pool holds its keys in this process with the ${name} backend (ALLOW_IN_PROCESS_KEYS)`);
+  }
+
+  switch (name) {
+    case 'local':
+      return new LocalKeySigner(envPrefix, logger);
+    case 'keystore':
+      return new KeystoreSigner(envPrefix);
+    case 'remote':
+      return new RemoteSigner(envPrefix, poolName);
+    default:
+      throw new Error(`Unknown signer backend ${name}; use local, keystore or remote`);
+  }
+}
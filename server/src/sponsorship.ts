@@ -0,0 +1,181 @@
+// server/src/sponsorship.ts
+import dotenv from 'dotenv';
+import { Pool, PoolClient } from 'pg';
+import { Logger } from 'winston';
+
+dotenv.config();
+
+// Configurable constants (0 disables a cap)
+const SPONSOR_HOURLY_TX_LIMIT = parseInt(process.env.SPONSOR_HOURLY_TX_LIMIT || '500');
+const SPONSOR_HOURLY_GAS_LIMIT = parseInt(process.env.SPONSOR_HOURLY_GAS_LIMIT || '50000000');
+const SPONSOR_DAILY_TX_LIMIT = parseInt(process.env.SPONSOR_DAILY_TX_LIMIT || '3000');
+const SPONSOR_DAILY_GAS_LIMIT = parseInt(process.env.SPONSOR_DAILY_GAS_LIMIT || '300000000');
+const SPONSOR_GLOBAL_DAILY_TX_LIMIT = parseInt(process.env.SPONSOR_GLOBAL_DAILY_TX_LIMIT || '0');
+const SPONSOR_GLOBAL_DAILY_GAS_LIMIT = parseInt(process.env.SPONSOR_GLOBAL_DAILY_GAS_LIMIT || '0');
+
+// Estimated gas per transaction type, charged against budgets when queued
+const GAS_ESTIMATES: Record<string, number> = {
+  jump: parseInt(process.env.SPONSOR_GAS_JUMP || '90000'),
+  gameover: parseInt(process.env.SPONSOR_GAS_GAMEOVER || '150000'),
+  setplayer: parseInt(process.env.SPONSOR_GAS_SETPLAYER || '100000')
+};
+
+// Only jumps are capped per player; game overs, name updates and the
+// reconciliation server's corrections still count towards a player's usage
+// but are only held back by the global budget
+const PLAYER_CAPPED_TYPES = ['jump'];
+
+// Usage row holding the budget shared by all players
+const GLOBAL_SUBJECT = 'global';
+
+type SponsorshipPeriod = 'hour' | 'day';
+
+type SponsorshipLimit = {
+  subject: string;
+  period: SponsorshipPeriod;
+  txLimit: number;
+  gasLimit: number;
+  enforce: boolean;
+};
+
+export type QuotaWindow = {
+  txLimit: number | null;
+  txUsed: number;
+  txRemaining: number | null;
+  gasLimit: number | null;
+  gasUsed: number;
+  gasRemaining: number | null;
+  resetsAt: number;
+};
+
+export type SponsorshipQuota = {
+  playerAddress: string;
+  hourly: QuotaWindow;
+  daily: QuotaWindow;
+  global: QuotaWindow;
+};
+
+export type SponsorshipDecision = {
+  sponsored: boolean;
+  estimatedGas: number;
+  reason?: string;
+};
+
+/**
+ * Decides which queued transactions the relay wallets pay for. Usage is kept per
+ * address per hour and day, plus a global daily budget, in dino_sponsorship_usage
+ * so every worker draws from the same counters.
+ */
+export class SponsorshipPolicy {
+  private pool: Pool;
+  private logger: Logger;
+
+  constructor(pool: Pool, logger: Logger) {
+    this.pool = pool;
+    this.logger = logger;
+  }
+
+  /**
+   * Estimated gas for a transaction type
+   */
+  estimateGas(type: string): number {
+    return GAS_ESTIMATES[type] || GAS_ESTIMATES.jump;
+  }
+
+  private getLimits(playerAddress: string, type: string): SponsorshipLimit[] {
+    const capped = PLAYER_CAPPED_TYPES.includes(type);
+    return [
+      { subject: playerAddress, period: 'hour', txLimit: SPONSOR_HOURLY_TX_LIMIT, gasLimit: SPONSOR_HOURLY_GAS_LIMIT, enforce: capped },
+      { subject: playerAddress, period: 'day', txLimit: SPONSOR_DAILY_TX_LIMIT, gasLimit: SPONSOR_DAILY_GAS_LIMIT, enforce: capped },
+      { subject: GLOBAL_SUBJECT, period: 'day', txLimit: SPONSOR_GLOBAL_DAILY_TX_LIMIT, gasLimit: SPONSOR_GLOBAL_DAILY_GAS_LIMIT, enforce: true }
+    ];
+  }
+
+  /**
+   * Charge a transaction against every budget that applies, inside the caller's
+   * transaction. Nothing is charged unless all budgets have room.
+   */
+  async reserve(client: PoolClient, playerAddress: string, type: string): Promise<SponsorshipDecision> {
+    const estimatedGas = this.estimateGas(type);
+
+    await client.query('SAVEPOINT sponsorship');
+    try {
+      for (const limit of this.getLimits(playerAddress, type)) {
+        // A transaction bigger than the whole gas cap can never fit
+        let reserved = !(limit.enforce && limit.gasLimit > 0 && estimatedGas > limit.gasLimit);
+
+        if (reserved) {
+          const result = await client.query(
+            `INSERT INTO dino_sponsorship_usage (subject, period, period_start, tx_count, gas_used)
+             VALUES ($1, $2, date_trunc($7, NOW()), 1, $3)
+             ON CONFLICT (subject, period, period_start) DO UPDATE
+             SET tx_count = dino_sponsorship_usage.tx_count + 1,
+                 gas_used = dino_sponsorship_usage.gas_used + EXCLUDED.gas_used
+             WHERE NOT $4::boolean
+                OR (($5 = 0 OR dino_sponsorship_usage.tx_count + 1 <= $5)
+                    AND ($6::bigint = 0 OR dino_sponsorship_usage.gas_used + EXCLUDED.gas_used <= $6::bigint))
+             RETURNING tx_count`,
+            [limit.subject, limit.period, estimatedGas, limit.enforce, limit.txLimit, limit.gasLimit, limit.period]
+          );
+          reserved = (result.rowCount || 0) > 0;
+        }
+
+        if (!reserved) {
+          await client.query('ROLLBACK TO SAVEPOINT sponsorship');
+          const scope = limit.subject === GLOBAL_SUBJECT ? 'global' : 'player';
+          const reason = `${scope}_${limit.period === 'hour' ? 'hourly' : 'daily'}_budget_exhausted`;
+          this.logger.info(`Not sponsoring ${type} for ${playerAddress}: ${reason}`);
+          return { sponsored: false, estimatedGas, reason };
+        }
+      }
+
+      await client.query('RELEASE SAVEPOINT sponsorship');
+      return { sponsored: true, estimatedGas };
+    } catch (error) {
+      await client.query('ROLLBACK TO SAVEPOINT sponsorship');
+      throw error;
+    }
+  }
+
+  /**
+   * Remaining sponsored transactions and gas for a player in the current windows
+   */
+  async getQuota(playerAddress: string): Promise<SponsorshipQuota> {
+    const client = await this.pool.connect();
+    try {
+      const usage = await client.query(
+        `SELECT subject, period, tx_count, gas_used FROM dino_sponsorship_usage
+         WHERE subject = ANY($1) AND period_start = date_trunc(period, NOW())`,
+        [[playerAddress, GLOBAL_SUBJECT]]
+      );
+      const resets = await client.query(
+        `SELECT date_trunc('hour', NOW()) + INTERVAL '1 hour' AS hour_reset,
+                date_trunc('day', NOW()) + INTERVAL '1 day' AS day_reset`
+      );
+
+      const window = (subject: string, period: SponsorshipPeriod, txLimit: number, gasLimit: number): QuotaWindow => {
+        const row = usage.rows.find(r => r.subject === subject && r.period === period);
+        const txUsed = row ? Number(row.tx_count) : 0;
+        const gasUsed = row ? Number(row.gas_used) : 0;
+        return {
+          txLimit: txLimit || null,
+          txUsed,
+          txRemaining: txLimit ? Math.max(0, txLimit - txUsed) : null,
+          gasLimit: gasLimit || null,
+          gasUsed,
+          gasRemaining: gasLimit ? Math.max(0, gasLimit - gasUsed) : null,
+          resetsAt: new Date(resets.rows[0][period === 'hour' ? 'hour_reset' : 'day_reset']).getTime()
+        };
+      };
+
+      return {
+        playerAddress,
+        hourly: window(playerAddress, 'hour', SPONSOR_HOURLY_TX_LIMIT, SPONSOR_HOURLY_GAS_LIMIT),
+        daily: window(playerAddress, 'day', SPONSOR_DAILY_TX_LIMIT, SPONSOR_DAILY_GAS_LIMIT),
+        global: window(GLOBAL_SUBJECT, 'day', SPONSOR_GLOBAL_DAILY_TX_LIMIT, SPONSOR_GLOBAL_DAILY_GAS_LIMIT)
+      };
+    } finally {
+      client.release();
+    }
+  }
+}
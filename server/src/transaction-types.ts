@@ -0,0 +1,146 @@
+// server/src/transaction-types.ts
+import dotenv from 'dotenv';
+import { Hash, isAddress } from 'viem';
+import { DinoRunnerContract, SendOptions } from './dino-runner-contract';
+
+dotenv.config();
+
+// Configurable constants
+const QUEUE_MAX_INFLIGHT_GAMEOVER = parseInt(process.env.QUEUE_MAX_INFLIGHT_GAMEOVER || '0');
+const QUEUE_MAX_INFLIGHT_SETPLAYER = parseInt(process.env.QUEUE_MAX_INFLIGHT_SETPLAYER || '5');
+const QUEUE_MAX_INFLIGHT_JUMP = parseInt(process.env.QUEUE_MAX_INFLIGHT_JUMP || '20');
+const MAX_USERNAME_LENGTH = 100; // dino_transaction_queue.username
+
+// The dino_transaction_queue fields a transaction type reads
+export type QueuedTransaction = {
+  type: string;
+  player_address: `0x${string}`;
+  game_id: string;
+  height?: number | null;
+  score?: number | null;
+  username?: string | null;
+};
+
+// DinoRunnerContract methods that send a transaction, and their arguments before the SendOptions
+type ContractWrite = {
+  [K in keyof DinoRunnerContract]: DinoRunnerContract[K] extends (...args: any[]) => Promise<Hash>
+    ? Parameters<DinoRunnerContract[K]> extends [...any[], SendOptions] ? K : never
+    : never
+}[keyof DinoRunnerContract];
+type WriteArgs<F extends ContractWrite> = F extends ContractWrite
+  ? DinoRunnerContract[F] extends (...args: [...infer A, SendOptions]) => Promise<Hash> ? A : never
+  : never;
+
+export interface TransactionType<F extends ContractWrite = ContractWrite> {
+  name: string;                // dino_transaction_queue.type
+  contractFunction: F;
+  priority: number;            // base priority stored on queue rows; higher goes first
+  concurrencyCap: number;      // most rows in flight at once (0 = no cap)
+  recoverable: boolean;        // whether the recovery server retries failed rows
+  validate(tx: QueuedTransaction): string | null; // why the row can't be sent, or null
+  args(tx: QueuedTransaction): WriteArgs<F>;
+  analyticsEvent?: {           // extra PostHog event captured when the row is sent
+    name: string;
+    properties(tx: QueuedTransaction): Record<string, unknown>;
+  };
+}
+
+const transactionTypes = new Map<string, TransactionType>();
+
+/**
+ * Add a kind of queued transaction. Everything that sends, prioritises,
+ * recovers or reports queue rows looks the type up here, so a new game
+ * action only needs its entry.
+ */
+export function registerTransactionType<F extends ContractWrite>(type: TransactionType<F>) {
+  if (transactionTypes.has(type.name)) {
+    throw new Error(`Transaction type ${type.name} is already registered`);
+  }
+  transactionTypes.set(type.name, type);
+}
+
+export function getTransactionType(name: string): TransactionType | undefined {
+  return transactionTypes.get(name);
+}
+
+export function transactionTypeNames(): string[] {
+  return Array.from(transactionTypes.keys());
+}
+
+export function recoverableTransactionTypes(): string[] {
+  return Array.from(transactionTypes.values()).filter(type => type.recoverable).map(type => type.name);
+}
+
+/**
+ * Why a queue row can't be sent, or null when its type accepts it
+ */
+export function validateTransaction(tx: QueuedTransaction): string | null {
+  const type = transactionTypes.get(tx.type);
+  if (!type) {
+    return `Unknown transaction type: ${tx.type}`;
+  }
+  return type.validate(tx);
+}
+
+/**
+ * Send a queue row with its type's contract function
+ */
+export function sendTransaction(contract: DinoRunnerContract, tx: QueuedTransaction, send: SendOptions): Promise<Hash> {
+  const type = transactionTypes.get(tx.type);
+  if (!type) {
+    throw new Error(`Unknown transaction type: ${tx.type}`);
+  }
+  const write = contract[type.contractFunction] as (...args: unknown[]) => Promise<Hash>;
+  return write.call(contract, ...type.args(tx), send);
+}
+
+function checkPlayer(tx: QueuedTransaction): string | null {
+  return isAddress(tx.player_address) ? null : `Invalid player address ${tx.player_address}`;
+}
+
+function checkGameId(tx: QueuedTransaction): string | null {
+  return tx.game_id ? null : 'Missing game id';
+}
+
+function checkUint(value: number | null | undefined, field: string): string | null {
+  return Number.isSafeInteger(Number(value ?? 0)) && Number(value ?? 0) >= 0 ? null : `Invalid ${field} ${value}`;
+}
+
+registerTransactionType({
+  name: 'gameover',
+  contractFunction: 'recordGameOver',
+  priority: 100,
+  concurrencyCap: QUEUE_MAX_INFLIGHT_GAMEOVER,
+  recoverable: true,
+  validate: tx => checkPlayer(tx) || checkGameId(tx) || checkUint(tx.score, 'score'),
+  args: tx => [tx.player_address, tx.score || 0, tx.game_id],
+  analyticsEvent: {
+    name: 'game_completed',
+    properties: tx => ({ score: tx.score, game_id: tx.game_id })
+  }
+});
+
+registerTransactionType({
+  name: 'setplayer',
+  contractFunction: 'setPlayer',
+  priority: 50,
+  concurrencyCap: QUEUE_MAX_INFLIGHT_SETPLAYER,
+  recoverable: false,
+  validate: tx => checkPlayer(tx) ||
+    (tx.username && tx.username.length <= MAX_USERNAME_LENGTH ? null : `Invalid username ${tx.username}`),
+  args: tx => [tx.player_address, tx.username || ''],
+  analyticsEvent: {
+    name: 'player_registered',
+    properties: tx => ({ player_name: tx.username })
+  }
+});
+
+registerTransactionType({
+  name: 'jump',
+  contractFunction: 'recordJump',
+  priority: 10,
+  concurrencyCap: QUEUE_MAX_INFLIGHT_JUMP,
+  recoverable: true,
+  validate: tx => checkPlayer(tx) || checkGameId(tx) || checkUint(tx.height, 'height') || checkUint(tx.score, 'score'),
+  args: tx => [tx.player_address, tx.height || 0, tx.score || 0, tx.game_id]
+});
@@ -0,0 +1,122 @@
+// server/src/wallet-admin.ts
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import winston from 'winston';
+import { loadDeployments, WalletPoolRole } from './deployments';
+import { WalletSpec } from './signer';
+import { WalletPool } from './wallet-pool';
+
+dotenv.config();
+
+/**
+ * Operator commands for the wallet pools named in the deployment registry
+ * (relay and recovery without one). Changes are
+ * written to dino_wallet_pool and picked up by the running servers on their
+ * next reload (send the relay SIGHUP to apply them at once). Wallets are
+ * checked against the pool's signer backend, so run this with the same
+ * signer configuration as the server.
+ *
+ * Usage:
+ *   npm run wallet-admin -- list <pool>
+ *   npm run wallet-admin -- add <pool> --mnemonic-index <n> | --env <VAR> | --keystore <path#entry> | --remote <address>
+ *   npm run wallet-admin -- retire <pool> <address> [--successor <address>] [--sweep]
+ *   npm run wallet-admin -- rotate <pool> <address>
+ */
+
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.simple()
+  ),
+  transports: [new winston.transports.Console()]
+});
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  max: 2,
+  connectionTimeoutMillis: 10000
+});
+
+// Pool sizes match the servers' so seeding derives the same wallets
+const WALLET_COUNTS: Record<WalletPoolRole, number> = {
+  relay: parseInt(process.env.WALLET_COUNT || '3'),
+  recovery: parseInt(process.env.RECOVERY_WALLET_COUNT || '3')
+};
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function parseSpec(args: string[]): WalletSpec {
+  const hdIndex = option(args, '--mnemonic-index');
+  if (hdIndex !== undefined) return { source: 'mnemonic', hdIndex: parseInt(hdIndex) };
+
+  const envVar = option(args, '--env');
+  if (envVar) return { source: 'env', keyRef: envVar };
+
+  const keystore = option(args, '--keystore');
+  if (keystore) return { source: 'keystore', keyRef: keystore.includes('#') ? keystore : `${keystore}#0` };
+
+  const remote = option(args, '--remote');
+  if (remote) return { source: 'remote', keyRef: remote };
+
+  throw new Error('add needs --mnemonic-index <n>, --env <VAR>, --keystore <path#entry> or --remote <address>');
+}
+
+async function main() {
+  const [command, poolName, ...args] = process.argv.slice(2);
+
+  const registry = loadDeployments();
+  const role = registry.poolRole(poolName);
+  if (!role) {
+    const pools = registry.deployments.flatMap(deployment => Object.values(deployment.walletPools));
+    throw new Error(`Pool must be one of ${Array.from(new Set(pools)).join(', ')}`);
+  }
+
+  const walletPool = new WalletPool(pool, logger, poolName, role, WALLET_COUNTS[role]);
+
+  switch (command) {
+    case 'list': {
+      const result = await pool.query(
+        `SELECT address, source, key_ref, hd_index, state, successor, sweep, sweep_hash, retired_at
+         FROM dino_wallet_pool WHERE pool = $1 ORDER BY created_at, address`,
+        [poolName]
+      );
+      console.table(result.rows);
+      break;
+    }
+    case 'add': {
+      const wallet = await walletPool.add(parseSpec(args));
+      logger.info(`Added ${wallet.address} to the ${poolName} pool`);
+      break;
+    }
+    case 'retire': {
+      const address = args[0];
+      if (!address) throw new Error('retire needs an address');
+      const successor = option(args, '--successor') || null;
+      const sweep = args.includes('--sweep');
+      if (sweep && !successor) throw new Error('--sweep needs --successor');
+      await walletPool.retire(address, successor, sweep);
+      logger.info(`Retiring ${address}; it stops taking work and is retired once its nonces clear`);
+      break;
+    }
+    case 'rotate': {
+      const address = args[0];
+      if (!address) throw new Error('rotate needs an address');
+      const replacement = await walletPool.rotate(address);
+      logger.info(`Rotating ${address} to ${replacement.address}`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command ${command}; use list, add, retire or rotate`);
+  }
+}
+
+main()
+  .catch(error => {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
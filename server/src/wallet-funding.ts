@@ -0,0 +1,146 @@
+// server/src/wallet-funding.ts
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { createWalletClient, formatEther, parseEther } from 'viem';
+import { LocalAccount } from 'viem/accounts';
+import { Logger } from 'winston';
+import { FeeStrategy } from './fee-strategy';
+import { NonceManager } from './nonce-manager';
+import { RpcRouter } from './rpc-transport';
+
+dotenv.config();
+
+// Configurable constants (amounts in STT)
+export const WALLET_BALANCE_CHECK_INTERVAL = parseInt(process.env.WALLET_BALANCE_CHECK_INTERVAL || '60000'); // 1 minute
+const WALLET_MIN_BALANCE = parseEther(process.env.WALLET_MIN_BALANCE || '0.05'); // below this a wallet is not selected
+const WALLET_TARGET_BALANCE = parseEther(process.env.WALLET_TARGET_BALANCE || '0.5'); // refills top up to this
+const TREASURY_MIN_RESERVE = parseEther(process.env.TREASURY_MIN_RESERVE || '1'); // never send the treasury below this
+const WALLET_REFILL_COOLDOWN_MS = parseInt(process.env.WALLET_REFILL_COOLDOWN_MS || '300000'); // 5 minutes per wallet
+const TRANSFER_GAS = BigInt(21000);
+
+export type WalletRefill = {
+  address: string;
+  amount: string;        // STT
+  balanceBefore: string; // STT
+  hash: string;
+  timestamp: number;
+};
+
+/**
+ * Balance checks for the relay wallets, and top-ups from an optional treasury
+ * wallet supplied by the relay's signer backend. Every refill is recorded in
+ * dino_wallet_refills.
+ */
+export class WalletFunding {
+  private pool: Pool;
+  private logger: Logger;
+  private publicClient: any;
+  private nonceManager: NonceManager;
+  private feeStrategy: FeeStrategy;
+  private treasuryClient: any = null;
+  private lastRefillAt: Map<string, number> = new Map();
+
+  constructor(
+    pool: Pool,
+    logger: Logger,
+    publicClient: any,
+    nonceManager: NonceManager,
+    feeStrategy: FeeStrategy,
+    rpcRouter: RpcRouter,
+    treasuryAccount: LocalAccount | null
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.publicClient = publicClient;
+    this.nonceManager = nonceManager;
+    this.feeStrategy = feeStrategy;
+
+    if (treasuryAccount) {
+      this.treasuryClient = createWalletClient({
+        account: treasuryAccount,
+        chain: rpcRouter.chain,
+        transport: rpcRouter.createTransport()
+      });
+      logger.info(`Treasury wallet ${treasuryAccount.address} will refill relay wallets`);
+    } else {
+      logger.warn('No treasury wallet configured, relay wallets will not be refilled automatically');
+    }
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    return BigInt(await this.publicClient.getBalance({ address }));
+  }
+
+  /**
+   * Whether a wallet has too little to pay for its transactions
+   */
+  isLow(balance: bigint): boolean {
+    return balance < WALLET_MIN_BALANCE;
+  }
+
+  /**
+   * Top a low wallet up to WALLET_TARGET_BALANCE from the treasury
+   * @returns The refill, or null if none was sent
+   */
+  async refill(address: string, balance: bigint): Promise<WalletRefill | null> {
+    if (!this.treasuryClient || !this.isLow(balance)) return null;
+
+    const lastRefill = this.lastRefillAt.get(address) || 0;
+    if (Date.now() - lastRefill < WALLET_REFILL_COOLDOWN_MS) return null;
+
+    const treasuryAddress = this.treasuryClient.account.address;
+    const amount = WALLET_TARGET_BALANCE - balance;
+    const treasuryBalance = await this.getBalance(treasuryAddress);
+
+    if (treasuryBalance - amount < TREASURY_MIN_RESERVE) {
+      this.logger.error(`Treasury ${treasuryAddress} has ${formatEther(treasuryBalance)} STT, too little to refill ${address} with ${formatEther(amount)} STT`);
+      return null;
+    }
+
+    const fees = await this.feeStrategy.getFees();
+    const nonce = await this.nonceManager.reserve(treasuryAddress);
+
+    let hash: string;
+    try {
+      hash = await this.treasuryClient.sendTransaction({
+        account: this.treasuryClient.account,
+        chain: this.treasuryClient.chain,
+        to: address,
+        value: amount,
+        gas: TRANSFER_GAS,
+        nonce: Number(nonce),
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+      });
+    } catch (error) {
+      await this.nonceManager.release(treasuryAddress, nonce);
+      throw error;
+    }
+
+    await this.nonceManager.markSent(treasuryAddress, nonce, hash);
+    this.lastRefillAt.set(address, Date.now());
+
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO dino_wallet_refills (chain_id, wallet_address, treasury_address, amount_wei, balance_before_wei, hash)
+         VALUES ($6, $1, $2, $3, $4, $5)`,
+        [address, treasuryAddress, amount.toString(), balance.toString(), hash, this.nonceManager.chainId]
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record refill ${hash} for ${address}:`, error);
+    } finally {
+      client.release();
+    }
+
+    this.logger.info(`Refilled ${address} with ${formatEther(amount)} STT from treasury (was ${formatEther(balance)} STT), hash: ${hash}`);
+
+    return {
+      address,
+      amount: formatEther(amount),
+      balanceBefore: formatEther(balance),
+      hash,
+      timestamp: Date.now()
+    };
+  }
+}
@@ -0,0 +1,269 @@
+// server/src/wallet-pool.ts
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { LocalAccount } from 'viem/accounts';
+import { Logger } from 'winston';
+import { WalletPoolRole } from './deployments';
+import { FeeStrategy } from './fee-strategy';
+import { NonceManager } from './nonce-manager';
+import { createSigner, SignerBackend, WalletSource, WalletSpec } from './signer';
+
+dotenv.config();
+
+// Configurable constants
+export const WALLET_POOL_RELOAD_INTERVAL = parseInt(process.env.WALLET_POOL_RELOAD_INTERVAL || '30000'); // 30s
+const TRANSFER_GAS = BigInt(21000);
+
+export type WalletPoolState = 'active' | 'retiring' | 'retired';
+
+export type PoolWallet = {
+  address: string;
+  source: WalletSource;
+  keyRef: string | null;    // env var name, keystore path#entry or remote address
+  hdIndex: number | null;   // mnemonic address index
+  state: WalletPoolState;
+  successor: string | null; // where a retiring wallet's balance goes
+  sweep: boolean;
+  account: LocalAccount;
+};
+
+/**
+ * Relay (or recovery) wallets, kept in dino_wallet_pool so they can be added,
+ * retired and rotated while the servers run. Keys never go in the database:
+ * rows point at an env var, a mnemonic index, a keystore entry or an address
+ * held by the remote signer, and are resolved by the pool's signer backend
+ * (see signer.ts). Pools are named per deployment in the registry; the role
+ * picks the signer configuration, so pools with the same role share keys.
+ */
+export class WalletPool {
+  private pool: Pool;
+  private logger: Logger;
+  private name: string;
+  private count: number;
+  readonly signer: SignerBackend;
+
+  constructor(pool: Pool, logger: Logger, name: string, role: WalletPoolRole, count: number) {
+    this.pool = pool;
+    this.logger = logger;
+    this.name = name;
+    this.count = count;
+    this.signer = createSigner(role, logger);
+    logger.info(`The ${name} pool signs with the ${this.signer.name} backend`);
+  }
+
+  /**
+   * Register a wallet as active, or reactivate it
+   */
+  async add(spec: WalletSpec): Promise<PoolWallet> {
+    const account = this.signer.resolveAccount(spec);
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO dino_wallet_pool (pool, address, source, key_ref, hd_index, state)
+         VALUES ($1, $2, $3, $4, $5, 'active')
+         ON CONFLICT (pool, address) DO UPDATE
+         SET source = EXCLUDED.source, key_ref = EXCLUDED.key_ref, hd_index = EXCLUDED.hd_index,
+             state = 'active', successor = NULL, sweep = FALSE, updated_at = NOW()`,
+        [this.name, account.address.toLowerCase(), spec.source,
+         spec.source === 'mnemonic' ? null : spec.keyRef, spec.source === 'mnemonic' ? spec.hdIndex : null]
+      );
+    } finally {
+      client.release();
+    }
+
+    this.logger.info(`Added ${spec.source} wallet ${account.address} to the ${this.name} pool`);
+    return {
+      address: account.address.toLowerCase(),
+      source: spec.source,
+      keyRef: spec.source === 'mnemonic' ? null : spec.keyRef,
+      hdIndex: spec.source === 'mnemonic' ? spec.hdIndex : null,
+      state: 'active',
+      successor: null,
+      sweep: false,
+      account
+    };
+  }
+
+  /**
+   * Seed the registry with the configured wallets the first time a pool is used
+   */
+  async seed() {
+    const client = await this.pool.connect();
+    let registered = 0;
+    try {
+      const result = await client.query('SELECT COUNT(*)::int AS count FROM dino_wallet_pool WHERE pool = $1', [this.name]);
+      registered = result.rows[0].count;
+    } finally {
+      client.release();
+    }
+    if (registered > 0) return;
+
+    for (const spec of await this.signer.getConfiguredSpecs(this.count)) {
+      try {
+        await this.add(spec);
+      } catch (error) {
+        this.logger.error(`Failed to register configured ${spec.source} wallet:`, error);
+      }
+    }
+  }
+
+  /**
+   * Active and retiring wallets with their accounts. Rows the signer backend
+   * can't sign for are skipped.
+   */
+  async load(): Promise<PoolWallet[]> {
+    const client = await this.pool.connect();
+    let rows: any[];
+    try {
+      const result = await client.query(
+        `SELECT * FROM dino_wallet_pool WHERE pool = $1 AND state != 'retired' ORDER BY created_at, address`,
+        [this.name]
+      );
+      rows = result.rows;
+    } finally {
+      client.release();
+    }
+
+    const wallets: PoolWallet[] = [];
+    for (const row of rows) {
+      if (!this.signer.supports(row.source)) {
+        this.logger.warn(`Wallet ${row.address} is a ${row.source} wallet, which the ${this.signer.name} signer can't use; skipping`);
+        continue;
+      }
+      const spec: WalletSpec = row.source === 'mnemonic'
+        ? { source: 'mnemonic', hdIndex: row.hd_index }
+        : { source: row.source, keyRef: row.key_ref };
+      try {
+        const account = this.signer.resolveAccount(spec);
+        if (account.address.toLowerCase() !== row.address) {
+          this.logger.error(`Wallet ${row.address} resolves to ${account.address}, skipping`);
+          continue;
+        }
+        wallets.push({
+          address: row.address,
+          source: row.source,
+          keyRef: row.key_ref,
+          hdIndex: row.hd_index,
+          state: row.state,
+          successor: row.successor,
+          sweep: row.sweep,
+          account
+        });
+      } catch (error) {
+        this.logger.error(`Cannot load key for wallet ${row.address}:`, error);
+      }
+    }
+    return wallets;
+  }
+
+  /**
+   * Stop giving a wallet work. It is retired once its queue is empty and its
+   * pending nonces have cleared.
+   * @param successor Wallet to sweep the remaining balance to
+   */
+  async retire(address: string, successor: string | null = null, sweep: boolean = false) {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE dino_wallet_pool SET state = 'retiring', successor = $3, sweep = $4, updated_at = NOW()
+         WHERE pool = $1 AND address = $2 AND state = 'active'`,
+        [this.name, address.toLowerCase(), successor ? successor.toLowerCase() : null, sweep && !!successor]
+      );
+      if ((result.rowCount || 0) === 0) {
+        throw new Error(`No active wallet ${address} in the ${this.name} pool`);
+      }
+    } finally {
+      client.release();
+    }
+    this.logger.info(`Retiring wallet ${address} from the ${this.name} pool${successor ? `, successor ${successor}` : ''}`);
+  }
+
+  /**
+   * Replace a wallet with the next unused mnemonic address, sweeping its
+   * balance over once it has drained
+   */
+  async rotate(address: string): Promise<PoolWallet> {
+    if (!this.signer.canDerive()) {
+      throw new Error('Rotation derives the replacement from the mnemonic; add a wallet and retire this one instead');
+    }
+
+    const client = await this.pool.connect();
+    let hdIndex: number;
+    try {
+      const result = await client.query(
+        `SELECT COALESCE(MAX(hd_index) + 1, 0) AS next FROM dino_wallet_pool WHERE pool = $1 AND source = 'mnemonic'`,
+        [this.name]
+      );
+      hdIndex = Math.max(parseInt(result.rows[0].next), this.count);
+    } finally {
+      client.release();
+    }
+
+    const replacement = await this.add({ source: 'mnemonic', hdIndex });
+    await this.retire(address, replacement.address, true);
+    return replacement;
+  }
+
+  /**
+   * Finish retiring a drained wallet: once nothing is pending at its nonces,
+   * sweep the balance to its successor and mark it retired
+   * @returns Whether the wallet is now retired
+   */
+  async finalizeRetirement(
+    wallet: PoolWallet,
+    walletClient: any,
+    publicClient: any,
+    nonceManager: NonceManager,
+    feeStrategy: FeeStrategy
+  ): Promise<boolean> {
+    const state = await nonceManager.getNonceState(wallet.address);
+    if (state.pending > state.latest || (state.next !== null && state.next > state.pending)) {
+      this.logger.info(`Wallet ${wallet.address} still has pending nonces (latest ${state.latest}, pending ${state.pending}), not retiring yet`);
+      return false;
+    }
+
+    let sweepHash: string | null = null;
+    if (wallet.sweep && wallet.successor) {
+      const balance = BigInt(await publicClient.getBalance({ address: wallet.address }));
+      const fees = await feeStrategy.getFees();
+      const amount = balance - TRANSFER_GAS * fees.maxFeePerGas;
+
+      if (amount > BigInt(0)) {
+        const nonce = await nonceManager.reserve(wallet.address);
+        let hash: string;
+        try {
+          hash = await walletClient.sendTransaction({
+            account: walletClient.account,
+            chain: walletClient.chain,
+            to: wallet.successor,
+            value: amount,
+            gas: TRANSFER_GAS,
+            nonce: Number(nonce),
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+          });
+        } catch (error) {
+          await nonceManager.release(wallet.address, nonce);
+          throw error;
+        }
+        await nonceManager.markSent(wallet.address, nonce, hash);
+        sweepHash = hash;
+        this.logger.info(`Swept ${amount} wei from ${wallet.address} to ${wallet.successor}, hash: ${hash}`);
+      }
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE dino_wallet_pool SET state = 'retired', sweep_hash = $3, retired_at = NOW(), updated_at = NOW()
+         WHERE pool = $1 AND address = $2`,
+        [this.name, wallet.address, sweepHash]
+      );
+    } finally {
+      client.release();
+    }
+
+    this.logger.info(`Wallet ${wallet.address} retired from the ${this.name} pool`);
+    return true;
+  }
+}
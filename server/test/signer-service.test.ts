@@ -0,0 +1,157 @@
+// server/test/signer-service.test.ts
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { TransactionSerializable } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import winston from 'winston';
+import { createSignerService } from '../src/signer-service';
+import { createSigner } from '../src/signer';
+
+// The remote signer backend against the stand-in signing service, over HTTP
+
+const CHAIN_ID = 50312;
+const AUTH_TOKEN = 'test-token';
+const RELAY_KEY = `0x${'11'.repeat(32)}` as const;
+const RECOVERY_KEY = `0x${'22'.repeat(32)}` as const;
+const TREASURY_KEY = `0x${'33'.repeat(32)}` as const;
+
+const relay = privateKeyToAccount(RELAY_KEY);
+const recovery = privateKeyToAccount(RECOVERY_KEY);
+const treasury = privateKeyToAccount(TREASURY_KEY);
+
+const logger = winston.createLogger({ silent: true, transports: [new winston.transports.Console()] });
+
+const ENV: Record<string, string | undefined> = {
+  NODE_ENV: 'production',
+  PRIVATE_KEY_1: RELAY_KEY,
+  RECOVERY_PRIVATE_KEY_1: RECOVERY_KEY,
+  TREASURY_PRIVATE_KEY: TREASURY_KEY,
+  TREASURY_ADDRESS: treasury.address,
+  WALLET_MNEMONIC: undefined,
+  RECOVERY_WALLET_MNEMONIC: undefined,
+  SIGNER_BACKEND: 'remote',
+  RECOVERY_SIGNER_BACKEND: 'remote',
+  SIGNER_AUTH_TOKEN: AUTH_TOKEN,
+  RECOVERY_SIGNER_AUTH_TOKEN: AUTH_TOKEN
+};
+
+const transaction = (chainId: number): TransactionSerializable => ({
+  type: 'eip1559',
+  chainId,
+  to: recovery.address,
+  nonce: 7,
+  gas: 21000n,
+  maxFeePerGas: 2_000_000_000n,
+  maxPriorityFeePerGas: 1_000_000_000n,
+  value: 1n
+});
+
+const typedData = {
+  domain: { name: 'DinoRunner', version: '1', chainId: CHAIN_ID },
+  types: { Score: [{ name: 'player', type: 'address' }, { name: 'score', type: 'uint256' }] },
+  primaryType: 'Score',
+  message: { player: relay.address, score: 1234n }
+} as const;
+
+describe('remote signer with the signer service', () => {
+  const savedEnv: Record<string, string | undefined> = {};
+  let server: Server;
+
+  before(async () => {
+    for (const [key, value] of Object.entries(ENV)) {
+      savedEnv[key] = process.env[key];
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+
+    // Holding keys is the service's job, so production doesn't stop it
+    const app = await createSignerService({ chainIds: [CHAIN_ID], backend: 'local', authToken: AUTH_TOKEN, logger });
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.SIGNER_URL = url;
+    process.env.RECOVERY_SIGNER_URL = url;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    delete process.env.SIGNER_URL;
+    delete process.env.RECOVERY_SIGNER_URL;
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  it('lists each pool\'s addresses', async () => {
+    const relaySpecs = await createSigner('relay', logger).getConfiguredSpecs(3);
+    const recoverySpecs = await createSigner('recovery', logger).getConfiguredSpecs(3);
+
+    assert.deepEqual(relaySpecs, [{ source: 'remote', keyRef: relay.address }]);
+    assert.deepEqual(recoverySpecs, [{ source: 'remote', keyRef: recovery.address }]);
+  });
+
+  it('signs transactions as the local key would', async () => {
+    const account = createSigner('relay', logger).resolveAccount({ source: 'remote', keyRef: relay.address });
+
+    assert.equal(await account.signTransaction(transaction(CHAIN_ID)), await relay.signTransaction(transaction(CHAIN_ID)));
+  });
+
+  it('refuses transactions for chains outside the registry', async () => {
+    const account = createSigner('relay', logger).resolveAccount({ source: 'remote', keyRef: relay.address });
+
+    await assert.rejects(account.signTransaction(transaction(1)), /400: Refusing to sign for chain 1/);
+  });
+
+  it('signs messages and typed data as the local key would', async () => {
+    const account = createSigner('recovery', logger).resolveAccount({ source: 'remote', keyRef: recovery.address });
+
+    assert.equal(await account.signMessage({ message: 'dino' }), await recovery.signMessage({ message: 'dino' }));
+    assert.equal(
+      await account.signMessage({ message: { raw: new Uint8Array([1, 2, 3]) } }),
+      await recovery.signMessage({ message: { raw: new Uint8Array([1, 2, 3]) } })
+    );
+    assert.equal(await account.signTypedData(typedData), await recovery.signTypedData(typedData));
+  });
+
+  it('signs for the treasury by address', async () => {
+    const account = createSigner('relay', logger).getTreasuryAccount();
+
+    assert.ok(account);
+    assert.equal(await account.signMessage({ message: 'refill' }), await treasury.signMessage({ message: 'refill' }));
+  });
+
+  it('rejects addresses it holds no key for', async () => {
+    const account = createSigner('relay', logger).resolveAccount({ source: 'remote', keyRef: privateKeyToAccount(`0x${'44'.repeat(32)}`).address });
+
+    await assert.rejects(account.signMessage({ message: 'dino' }), /404: No key for/);
+  });
+
+  it('rejects requests without the auth token', async () => {
+    process.env.SIGNER_AUTH_TOKEN = 'wrong-token';
+    try {
+      await assert.rejects(createSigner('relay', logger).getConfiguredSpecs(3), /401: Unauthorized/);
+    } finally {
+      process.env.SIGNER_AUTH_TOKEN = AUTH_TOKEN;
+    }
+  });
+
+  it('keeps in-process keys out of the production servers', () => {
+    process.env.SIGNER_BACKEND = 'local';
+    try {
+      assert.throws(() => createSigner('relay', logger), /ALLOW_IN_PROCESS_KEYS/);
+    } finally {
+      process.env.SIGNER_BACKEND = 'remote';
+    }
+  });
+});
@@ -1,6 +1,6 @@
 // src/App.jsx - Optimized for mobile
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { useAccount } from 'wagmi';
+import { useAccount, useSignMessage } from 'wagmi';
 import { ConnectKitButton } from 'connectkit';
 import { toast, Toaster } from 'sonner';
 import './App.css';
@@ -34,6 +34,7 @@ function App() {
   
   const gameContainerRef = useRef(null);
   const { address, isConnected } = useAccount();
+  const { signMessageAsync } = useSignMessage();
 
   // Right-click protection
   useEffect(() => {
@@ -204,7 +205,7 @@ function App() {
           console.error('Authentication failed:', result.message);
           toast.error('Failed to save username: ' + result.message);
         }
-      });
+      }, (message) => signMessageAsync({ message }));
     } catch (error) {
       console.error('Error saving username:', error);
       toast.error('Failed to save username');
@@ -35,7 +35,8 @@ const EVENTS = {
     ERROR: 'BLOCKCHAIN_ERROR',
     SERVER_CONNECTED: 'BLOCKCHAIN_SERVER_CONNECTED',
     SERVER_DISCONNECTED: 'BLOCKCHAIN_SERVER_DISCONNECTED',
-    SERVER_RETRY: 'BLOCKCHAIN_SERVER_RETRY'
+    SERVER_RETRY: 'BLOCKCHAIN_SERVER_RETRY',
+    RUN_SEED: 'BLOCKCHAIN_RUN_SEED'
   }
 };
 
@@ -79,6 +79,9 @@ const GAME = {
         MAX_DUPLICATION: 2,
       },
     },
+    STEPS: {
+      MAX_PER_FRAME: 5,
+    },
   },
   GAMEOVER: {
     VIBRATION: 200,
@@ -10,6 +10,12 @@ const DEBUG = import.meta.env.VITE_DEBUG === 'true';
 // DEV MODE 
 const DEV_MODE = import.meta.env.VITE_DEV_MODE === 'true';
 
+// Deployment new games are asked for; the server's default if unset or not taking new games
+const DEPLOYMENT = import.meta.env.VITE_DEPLOYMENT || undefined;
+
+
+// Session token storage key
+const SESSION_TOKEN_KEY = 'dino_session_token';
 
 // Define module variables
 let socket = null;
@@ -21,6 +27,10 @@ let state = {
   leaderboard: [],
   gameActive: false,
   gameId: null,
+  gameTicket: null,
+  gameSeed: null,
+  gameDeployment: null,
+  quota: null,
   playerAddress: null,
   authenticated: false
 };
@@ -53,12 +63,14 @@ export function initialize(config = {}) {
   
   if (DEBUG) console.log(`BlockchainSync: Initializing new socket to ${socketUrl}`);
   
-  // Create new socket
+  // Create new socket, resuming a previous session if we have one
+  const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY);
   socket = io(socketUrl, {
     transports: ['websocket'],
     reconnectionAttempts: 5,
     reconnectionDelay: 1000,
-    timeout: 10000
+    timeout: 10000,
+    auth: sessionToken ? { token: sessionToken } : {}
   });
   
   // Socket connect handler
@@ -86,7 +98,10 @@ export function initialize(config = {}) {
       ...state, 
       connected: false,
       gameActive: false,
-      gameId: null
+      gameId: null,
+      gameTicket: null,
+      gameSeed: null,
+      gameDeployment: null
     });
     
     // Dispatch connection event
@@ -102,12 +117,24 @@ export function initialize(config = {}) {
   
   // Socket error handler
   socket.on('connect_error', (error) => {
+    // Stale session token - drop it and reconnect anonymously
+    if (error.message === 'SESSION_INVALID') {
+      if (DEBUG) console.log('BlockchainSync: Session token rejected, reconnecting without it');
+      localStorage.removeItem(SESSION_TOKEN_KEY);
+      socket.auth = {};
+      socket.connect();
+      return;
+    }
+
     console.error('BlockchainSync: Socket connection error:', error.message);
     updateState({ 
       ...state, 
       connected: false,
       gameActive: false,
-      gameId: null
+      gameId: null,
+      gameTicket: null,
+      gameSeed: null,
+      gameDeployment: null
     });
     
     // Dispatch connection event
@@ -119,10 +146,22 @@ export function initialize(config = {}) {
     }
     
     toast.error('Cannot connect to blockchain server', {
-      description: error.message
+      description: error.data?.message || error.message
     });
   });
   
+  // Session resumed from a stored token
+  socket.on('server:auth', (data) => {
+    if (data.status === 'resumed') {
+      if (DEBUG) console.log(`BlockchainSync: Session resumed for ${data.playerAddress}`);
+      updateState({
+        ...state,
+        playerAddress: data.playerAddress,
+        authenticated: true
+      });
+    }
+  });
+  
   // Server status update
   socket.on('server:status', (data) => {
     if (DEBUG) console.log('BlockchainSync: Received server status:', data);
@@ -133,6 +172,15 @@ export function initialize(config = {}) {
     });
   });
   
+  // Relay wallet balances, pushed periodically and after each treasury refill
+  socket.on('server:walletStatus', (data) => {
+    if (DEBUG && data.refill) console.log('BlockchainSync: Relay wallet refilled:', data.refill);
+    updateState({
+      ...state,
+      walletStatus: data.wallets || []
+    });
+  });
+  
   // Game start handler
   socket.on('server:gameStart', (data) => {
     if (DEBUG) console.log('BlockchainSync: Received game start response:', data);
@@ -143,7 +191,10 @@ export function initialize(config = {}) {
       updateState({ 
         ...state, 
         gameActive: true,
-        gameId: data.gameId
+        gameId: data.gameId,
+        gameTicket: data.ticket,
+        gameSeed: data.seed || null,
+        gameDeployment: data.deployment || null
       });
       
       toast.success('Game started', {
@@ -161,7 +212,10 @@ export function initialize(config = {}) {
     updateState({ 
       ...state, 
       gameActive: false,
-      gameId: null
+      gameId: null,
+      gameTicket: null,
+      gameSeed: null,
+      gameDeployment: null
     });
     
     // Dispatch game end event
@@ -172,7 +226,15 @@ export function initialize(config = {}) {
       }));
     }
     
-    if (data.isHighScore) {
+    if (data.status === 'rejected') {
+      toast.error('Score Rejected', {
+        description: 'This run could not be verified and was not recorded'
+      });
+    } else if (data.underReview) {
+      toast.info('Score Under Review', {
+        description: 'Your run could not be replayed automatically and will be reviewed before joining the leaderboard'
+      });
+    } else if (data.isHighScore) {
       toast.success('New High Score!', {
         description: `Your score of ${data.finalScore} has been recorded on-chain!`
       });
@@ -188,7 +250,13 @@ export function initialize(config = {}) {
     updateState({ ...state, transactions: updatedTxs });
     
     // Show appropriate notifications
-    if (data.status === 'sent') {
+    if (data.reorged && (data.status === 'sent' || data.status === 'pending')) {
+      toast.warning("Transaction Reorganized", {
+        description: data.status === 'pending'
+          ? `Your ${data.type} left the chain and will be sent again`
+          : `Your ${data.type} is waiting to be included again`
+      });
+    } else if (data.status === 'sent') {
       if (data.type === 'gameover') {
         toast.success("Game Score Recorded!", {
           description: `Final score: ${data.score} | TX: ${data.hash?.slice(0, 6)}...`
@@ -205,9 +273,46 @@ export function initialize(config = {}) {
     }
   });
   
+  // Sponsorship quota - jumps past it are recorded but not sent on-chain
+  socket.on('server:quota', (data) => {
+    if (DEBUG) console.log('BlockchainSync: Quota update:', data);
+    updateState({
+      ...state,
+      quota: data
+    });
+  });
+  
+  socket.on('server:jump', (data) => {
+    if (data.sponsored === false) {
+      toast.info('Jump limit reached', {
+        id: 'quota-exhausted',
+        description: 'Your jumps are still counted but are no longer recorded on-chain until your quota resets'
+      });
+    }
+  });
+  
   // Server error handler
   socket.on('server:error', (data) => {
     console.error('BlockchainSync: Server error received:', data);
+    
+    // Throttled requests are dropped; show one toast instead of one per event
+    if (data.code === 'RATE_LIMITED') {
+      toast.warning('Slow down', {
+        id: 'rate-limited',
+        description: 'Too many requests, some actions were not recorded'
+      });
+      return;
+    }
+    
+    if (data.code === 'TEMP_BANNED') {
+      const minutes = Math.max(1, Math.ceil((data.retryAfterMs || 0) / 60000));
+      toast.error('Temporarily blocked', {
+        id: 'temp-banned',
+        description: `Too many requests. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`
+      });
+      return;
+    }
+    
     toast.error('Blockchain Server Error', {
       description: data.message || 'Unknown server error'
     });
@@ -225,6 +330,7 @@ function createAPI() {
     endGame,
     recordJump,
     getLeaderboard,
+    getQuota,
     reconnect,
     disconnect,
     isConnected: () => socket && socket.connected,
@@ -247,6 +353,14 @@ function updateState(newState) {
   }
 }
 
+// One key per jump or game over; socket.io resends the same payload after a
+// reconnect, and the server records each key only once
+function createIdempotencyKey(kind) {
+  const random = globalThis.crypto?.randomUUID?.()
+    ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  return `${kind}:${random}`;
+}
+
 // Subscribe to state changes
 export function subscribe(listener) {
   listeners.push(listener);
@@ -284,78 +398,58 @@ export async function startGame(playerAddress) {
     return null;
   }
   
-  // Generate a unique game ID
-  const gameId = `dino-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
-  console.log(`BlockchainSync: Starting new game with ID: ${gameId}`);
-  
   try {
-    // Get player username if available
-    const username = state.username || '';
-    
-    // Send the game start request to the server with username
+    // The server picks the game ID and issues the ticket
     if (socket.connected) {
-      console.log(`BlockchainSync: Emitting gameStart request for ${gameId} with username ${username}`);
-      socket.emit('client:gameStart', {
-        gameId,
-        playerAddress,
-        username
-      });
-    }
-    
-    // WORKAROUND for server not responding: create a local game session immediately
-    if (DEV_MODE) {
-      console.log(`BlockchainSync: DEV MODE - Creating local game session immediately`);
-      
-      // Short pause for visual consistency
-      await new Promise(resolve => setTimeout(resolve, 300));
+      console.log('BlockchainSync: Emitting gameStart request');
       
-      // Update the state
-      updateState({
-        ...state,
-        gameActive: true,
-        gameId: gameId
-      });
-      
-      toast.success('Game started (DEV MODE)', {
-        description: 'Local game session active'
+      return await new Promise((resolve, reject) => {
+        // Listen for server response
+        const handleGameStart = (data) => {
+          clearTimeout(startTimeout);
+          
+          if (data.status === 'started') {
+            resolve(data.gameId);
+          } else {
+            reject(new Error(`Game start failed: ${data.message || data.status}`));
+          }
+        };
+        
+        // Set timeout
+        const startTimeout = setTimeout(() => {
+          socket.off('server:gameStart', handleGameStart);
+          reject(new Error('Game start timeout after 10 seconds'));
+        }, 10000);
+        
+        socket.once('server:gameStart', handleGameStart);
+        socket.emit('client:gameStart', DEPLOYMENT ? { deployment: DEPLOYMENT } : undefined);
       });
-      
-      console.log(`BlockchainSync: DEV MODE - Local game session started with ID: ${gameId}`);
-      return gameId;
     }
     
-    // For non-DEV mode, wait for server confirmation (with timeout)
-    return new Promise((resolve, reject) => {
-      // Listen for server response
-      const handleGameStart = (data) => {
-        if (data.gameId !== gameId) return;
-        
-        // Clean up listener
-        socket.off('server:gameStart', handleGameStart);
-        
-        if (data.status === 'started') {
-          resolve(gameId);
-        } else {
-          reject(new Error(`Game start failed: ${data.status}`));
-        }
-      };
-      
-      socket.once('server:gameStart', handleGameStart);
-      
-      // Set timeout
-      setTimeout(() => {
-        socket.off('server:gameStart', handleGameStart);
-        reject(new Error('Game start timeout after 10 seconds'));
-      }, 10000);
+    // WORKAROUND for server not responding: create a local game session
+    const gameId = `dino-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+    console.log(`BlockchainSync: DEV MODE - Creating local game session ${gameId}`);
+    
+    // Short pause for visual consistency
+    await new Promise(resolve => setTimeout(resolve, 300));
+    
+    // Update the state
+    updateState({
+      ...state,
+      gameActive: true,
+      gameId: gameId,
+      gameTicket: null,
+      gameSeed: null,
+      gameDeployment: null
     });
-  } catch (error) {
-    console.error('BlockchainSync: Error starting game:', error);
     
-    if (DEV_MODE) {
-      // In DEV mode, still return the game ID to allow local gameplay
-      return gameId;
-    }
+    toast.success('Game started (DEV MODE)', {
+      description: 'Local game session active'
+    });
     
+    return gameId;
+  } catch (error) {
+    console.error('BlockchainSync: Error starting game:', error);
     return null;
   }
 }
@@ -389,9 +483,11 @@ export async function recordJump(playerAddress, height, score) {
     console.log(`BlockchainSync: Recording jump for game ${state.gameId}`);
     socket.emit('client:jump', {
       gameId: state.gameId,
+      ticket: state.gameTicket,
       playerAddress,
       height,
-      score
+      score,
+      idempotencyKey: createIdempotencyKey('jump')
     });
   } else if (DEV_MODE) {
     console.log(`BlockchainSync: DEV MODE - Logging jump locally: score=${score}, height=${height}`);
@@ -401,7 +497,7 @@ export async function recordJump(playerAddress, height, score) {
 }
 
 // End the game - with DEV MODE support
-export async function endGame(playerAddress, finalScore, distance) {
+export async function endGame(playerAddress, finalScore, distance, replay) {
   // Check requirements
   if (!socket || !socket.connected) {
     if (!DEV_MODE) {
@@ -429,9 +525,12 @@ export async function endGame(playerAddress, finalScore, distance) {
     console.log(`BlockchainSync: Ending game ${state.gameId} with score ${finalScore}`);
     socket.emit('client:gameOver', {
       gameId: state.gameId,
+      ticket: state.gameTicket,
       playerAddress,
       finalScore,
-      distance
+      distance,
+      replay,
+      idempotencyKey: createIdempotencyKey('gameover')
     });
   } else if (DEV_MODE) {
     console.log(`BlockchainSync: DEV MODE - Logging game end locally: score=${finalScore}`);
@@ -441,7 +540,10 @@ export async function endGame(playerAddress, finalScore, distance) {
   updateState({
     ...state,
     gameActive: false,
-    gameId: null
+    gameId: null,
+    gameTicket: null,
+    gameSeed: null,
+    gameDeployment: null
   });
   
   return true;
@@ -458,6 +560,17 @@ export async function getLeaderboard() {
   return state.leaderboard;
 }
 
+// Request remaining sponsored transactions; the reply updates state.quota
+export function getQuota() {
+  if (!socket || !socket.connected) {
+    console.warn('BlockchainSync: Cannot get quota - not connected');
+    return null;
+  }
+  
+  socket.emit('client:getQuota');
+  return state.quota;
+}
+
 // Reconnect to server
 export function reconnect() {
   console.log('BlockchainSync: Reconnect called');
@@ -481,13 +594,19 @@ export function reconnect() {
 export function disconnect() {
   if (socket && socket.connected) {
     console.log('BlockchainSync: Disconnecting socket');
+    socket.emit('client:logout');
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+    socket.auth = {};
     socket.disconnect();
     
     updateState({
       ...state,
       connected: false,
       gameActive: false,
-      gameId: null
+      gameId: null,
+      gameTicket: null,
+      gameSeed: null,
+      gameDeployment: null
     });
   }
 }
@@ -509,8 +628,31 @@ export function checkUsername(playerAddress) {
   });
 }
 
+// Request a sign-in challenge from the server
+function requestAuthChallenge(playerAddress) {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      socket.off('server:authChallenge', handleChallenge);
+      reject(new Error('Challenge request timed out'));
+    }, 5000);
+
+    function handleChallenge(response) {
+      clearTimeout(timeout);
+      if (response.status === 'ok') {
+        resolve(response);
+      } else {
+        reject(new Error(response.message || 'Challenge request failed'));
+      }
+    }
+
+    socket.once('server:authChallenge', handleChallenge);
+    socket.emit('client:authChallenge', { playerAddress });
+  });
+}
+
 // Authenticate user with their wallet address
-export function authenticateUser(playerAddress, username, callback) {
+// signMessage is an async function (message) => signature provided by the connected wallet
+export async function authenticateUser(playerAddress, username, callback, signMessage) {
   if (!socket) {
     console.error('BlockchainSync: Cannot authenticate - no socket');
     if (callback) callback({ success: false, message: 'No socket connection' });
@@ -528,16 +670,56 @@ export function authenticateUser(playerAddress, username, callback) {
     if (callback) callback({ success: false, message: 'No player address provided' });
     return false;
   }
+
+  if (!signMessage) {
+    console.error('BlockchainSync: Cannot authenticate - no wallet signer');
+    if (callback) callback({ success: false, message: 'No wallet signer available' });
+    return false;
+  }
   
   console.log(`BlockchainSync: Authenticating user with address ${playerAddress} and username ${username}`);
+
+  // Get a challenge and have the wallet sign it
+  let challenge;
+  let signature;
+  try {
+    challenge = await requestAuthChallenge(playerAddress);
+    signature = await signMessage(challenge.message);
+  } catch (error) {
+    console.error('BlockchainSync: Could not sign authentication challenge:', error);
+    toast.error('Authentication Failed', {
+      description: error.message || 'Could not sign in with wallet'
+    });
+    if (callback) callback({ success: false, message: error.message });
+    return false;
+  }
   
-  // Set up one-time listener for auth response
-  socket.once('server:auth', (response) => {
+  // Set timeout for auth response
+  const authTimeout = setTimeout(() => {
+    socket.off('server:auth', handleAuth); // Remove the listener to prevent memory leaks
+    console.error('BlockchainSync: Authentication timeout after 5 seconds');
+    
+    toast.error('Authentication Timeout', {
+      description: 'Server did not respond in time'
+    });
+    
+    if (callback) callback({ success: false, message: 'Authentication timeout' });
+  }, 5000);
+
+  // Handle the auth response
+  function handleAuth(response) {
+    clearTimeout(authTimeout);
     console.log('BlockchainSync: Received authentication response:', response);
     
     if (response.status === 'authenticated') {
       console.log(`BlockchainSync: User ${playerAddress} authenticated successfully`);
       
+      // Keep the session token so reconnects don't need a new signature
+      if (response.token) {
+        localStorage.setItem(SESSION_TOKEN_KEY, response.token);
+        socket.auth = { token: response.token };
+      }
+      
       // Update state with username if provided
       updateState({
         ...state,
@@ -562,29 +744,16 @@ export function authenticateUser(playerAddress, username, callback) {
       
       if (callback) callback({ success: false, message: response.message });
     }
-  });
-  
-  // Set timeout for auth response
-  const authTimeout = setTimeout(() => {
-    socket.off('server:auth'); // Remove the listener to prevent memory leaks
-    console.error('BlockchainSync: Authentication timeout after 5 seconds');
-    
-    toast.error('Authentication Timeout', {
-      description: 'Server did not respond in time'
-    });
-    
-    if (callback) callback({ success: false, message: 'Authentication timeout' });
-  }, 5000);
+  }
+
+  socket.once('server:auth', handleAuth);
   
-  // Send auth request with username
+  // Send signed auth request with username
   socket.emit('client:auth', { 
     playerAddress: playerAddress,
-    username: username
-  });
-  
-  // Clear timeout when response is received
-  socket.once('server:auth', () => {
-    clearTimeout(authTimeout);
+    username: username,
+    nonce: challenge.nonce,
+    signature
   });
   
   return true;
@@ -597,6 +766,7 @@ export default {
   endGame,
   recordJump,
   getLeaderboard,
+  getQuota,
   reconnect,
   disconnect,
   subscribe,
@@ -37,7 +37,15 @@ class Horizon {
   start() {
     const { speed } = this.scene;
     this.spawnInitialCloud(speed);
-    this.spawnInitialObstacle(speed);
+    this.spawnInitialObstacle(speed, this.isMobile());
+  }
+
+  /**
+   * Check whether game is running in mobile mode
+   * @returns {boolean}
+   */
+  isMobile() {
+    return this.scene.scale.gameSize.width === CONFIG.GAME.WIDTH.PORTRAIT;
   }
 
   /**
@@ -49,15 +57,16 @@ class Horizon {
   }
 
   /**
-   * Spawn 1st obstacle
+   * Spawn 1st obstacle after the spawn delay, counted in game steps so the
+   * server's replay spawns it on the same step
    * @param {number} speed - Current game speed
    * @param {boolean} isMobile - Whether game is running in mobile mode
    */
   spawnInitialObstacle(speed, isMobile) {
     const obstacleSpawnDelay = Horizon.CONFIG.OBSTACLES.SPAWN.DELAY;
-    this.scene.time.delayedCall(obstacleSpawnDelay, () =>
-      this.obstacles.spawnItem(speed, isMobile),
-    );
+    this.initialObstacleSpeed = speed;
+    this.initialObstacleMobile = isMobile;
+    this.stepsUntilObstacle = Math.round((obstacleSpawnDelay / 1000) * this.scene.physics.world.fps);
   }
 
   /**
@@ -70,6 +79,13 @@ class Horizon {
     this.obstacles.update(speed, isMobile);
     this.clouds.update(Horizon.CONFIG.CLOUDS.SPEED);
     this.nightMode.update();
+
+    if (this.stepsUntilObstacle > 0) {
+      this.stepsUntilObstacle -= 1;
+      if (this.stepsUntilObstacle === 0) {
+        this.obstacles.spawnItem(this.initialObstacleSpeed, this.initialObstacleMobile);
+      }
+    }
   }
 
   /**
@@ -80,7 +96,7 @@ class Horizon {
     this.ground.reset();
     this.obstacles.reset();
     this.nightMode.reset();
-    this.spawnInitialObstacle(speed);
+    this.spawnInitialObstacle(speed, this.isMobile());
   }
 }
 
@@ -26,6 +26,17 @@ class Obstacles extends HorizonItems {
     super(scene);
 
     this.obstacleHistory = [];
+
+    // Dedicated generator so the server can replay obstacles from the run seed
+    this.rnd = new Phaser.Math.RandomDataGenerator();
+  }
+
+  /**
+   * Seed obstacle generator
+   * @param {string} seed - Server-issued run seed
+   */
+  seed(seed) {
+    this.rnd.sow([seed]);
   }
 
   /**
@@ -55,9 +66,9 @@ class Obstacles extends HorizonItems {
 
     // only allow bird spawn if we have enough speed
     if (speed > BIRD.SPAWN.SPEED.MIN) {
-      obstacleType = Phaser.Math.RND.pick([BIRD, CACTUS.SMALL, CACTUS.LARGE]);
+      obstacleType = this.rnd.pick([BIRD, CACTUS.SMALL, CACTUS.LARGE]);
     } else {
-      obstacleType = Phaser.Math.RND.pick([CACTUS.SMALL, CACTUS.LARGE]);
+      obstacleType = this.rnd.pick([CACTUS.SMALL, CACTUS.LARGE]);
     }
 
     if (this.checkDuplication(obstacleType, MAX_DUPLICATION)) {
@@ -79,7 +90,7 @@ class Obstacles extends HorizonItems {
         ? obstacleType.SIZING.SPEED.MIN
         : obstacleType.SIZING.SPEED.MIN_MOBILE;
       if (speed > cactusSizingSpeed) {
-        cactusSize = Phaser.Math.RND.pick(CONFIG.PREFABS.OBSTACLES.CACTUS.SIZES);
+        cactusSize = this.rnd.pick(CONFIG.PREFABS.OBSTACLES.CACTUS.SIZES);
       }
 
       this.spawnCactus(speed, isMobile, `${obstacleType.FRAME}-${cactusSize}`);
@@ -96,10 +107,10 @@ class Obstacles extends HorizonItems {
     const { BIRD } = CONFIG.PREFABS.OBSTACLES;
 
     const y = !isMobile
-      ? Phaser.Math.RND.pick(BIRD.POS.Y)
-      : Phaser.Math.RND.pick(BIRD.POS.Y_MOBILE);
+      ? this.rnd.pick(BIRD.POS.Y)
+      : this.rnd.pick(BIRD.POS.Y_MOBILE);
 
-    const newObstacle = new Bird(this.scene, width, y);
+    const newObstacle = new Bird(this.scene, width, y, this.rnd);
     this.add(newObstacle);
 
     const gap = this.getGap(speed, BIRD.GAP.MIN, newObstacle.width);
@@ -130,7 +141,6 @@ class Obstacles extends HorizonItems {
    * @param {number} width - Obstacle width
    * @returns {number} - random gap
    */
-  // eslint-disable-next-line class-methods-use-this
   getGap(speed, minGap, width) {
     const { MAX_MULIPLIER } = Obstacles.CONFIG.GAP;
 
@@ -138,7 +148,7 @@ class Obstacles extends HorizonItems {
     const min = Math.round(width * speed + minGap);
     const max = Math.round(min * MAX_MULIPLIER);
 
-    return Phaser.Math.RND.between(min, max);
+    return this.rnd.between(min, max);
   }
 
   reset() {
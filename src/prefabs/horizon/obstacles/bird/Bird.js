@@ -17,13 +17,14 @@ class Bird extends Obstacle {
    * @param {Phaser.Scene} scene - The Scene to which this Bird belongs
    * @param {number} x - The horizontal position of this Bird in the world
    * @param {number} y - The vertical position of this Bird in the world
+   * @param {Phaser.Math.RandomDataGenerator} [rnd] - Generator for the speed offset
    * @override
    */
-  constructor(scene, x, y) {
+  constructor(scene, x, y, rnd = Phaser.Math.RND) {
     super(scene, x, y, Bird.CONFIG.FRAMES.INITIAL);
 
     this.animationManager = new AnimationManager(this);
-    this.speedOffset = Phaser.Math.RND.pick(Bird.CONFIG.SPEED.OFFSET);
+    this.speedOffset = rnd.pick(Bird.CONFIG.SPEED.OFFSET);
   }
 
   /**
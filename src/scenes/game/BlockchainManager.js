@@ -112,6 +112,12 @@ class BlockchainManager {
         this.currentGameId = gameId;
         console.log(`BlockchainManager: Game successfully started with ID: ${gameId}`);
         
+        // Seed obstacles so the server can replay this run
+        const { gameSeed } = this.blockchainSync.getState();
+        if (gameSeed) {
+          this.eventEmitter.emit(CONFIG.EVENTS.BLOCKCHAIN.RUN_SEED, gameSeed);
+        }
+        
         // Log the final state
         console.log('BlockchainManager: State after game start:', {
           isGameActive: this.isGameActive,
@@ -130,8 +136,10 @@ class BlockchainManager {
   /**
    * Handle game over
    * @param {number} finalScore - Final game score
+   * @param {number} highScore - Local high score
+   * @param {Object} replay - Input log of the run
    */
-  async onGameOver(finalScore) {
+  async onGameOver(finalScore, highScore, replay) {
     console.log(`BlockchainManager: GAME_OVER event with score: ${finalScore}`);
     
     try {
@@ -155,7 +163,8 @@ class BlockchainManager {
         await this.blockchainSync.endGame(
           this.walletAddress, 
           finalScore, 
-          finalScore
+          finalScore,
+          replay
         );
       }
       
@@ -10,6 +10,7 @@ import Intro from './Intro';
 import Player from '../../prefabs/player/Player';
 import Horizon from '../../prefabs/horizon/Horizon';
 import BlockchainManager from './BlockchainManager';
+import ReplayRecorder from './ReplayRecorder';
 
 /**
  * Main game scene
@@ -48,6 +49,7 @@ class GameScene extends Phaser.Scene {
       gameObjects: this.onResizeGameObjects.bind(this),
     });
     this.scoreManager = new LocalScoreManager(this.events);
+    this.replayRecorder = new ReplayRecorder(this);
 
     this.blockchainManager = new BlockchainManager(this.events);
 
@@ -58,6 +60,7 @@ class GameScene extends Phaser.Scene {
     this.events.on(CONFIG.EVENTS.GAME_RESTART, this.onGameRestart, this);
     this.events.on(CONFIG.EVENTS.GAME_OVER, this.onGameOver, this);
     this.events.on(CONFIG.EVENTS.HIGH_SCORE_UPDATE, this.onHighScoreUpdate, this);
+    this.events.on(CONFIG.EVENTS.BLOCKCHAIN.RUN_SEED, this.onRunSeed, this);
   }
 
   /**
@@ -98,6 +101,10 @@ class GameScene extends Phaser.Scene {
     this.physics.add.collider(this.player, this.ground);
     this.physics.add.overlap(this.player, this.obstacles, this.onPlayerHitObstacle, null, this);
 
+    // Physics is stepped with the rest of the run in update
+    this.physics.disableUpdate();
+    this.stepTime = 0;
+
     this.resizeManager.resize(this.scale.gameSize, this.scale.parentSize);
 
     this.scoreManager
@@ -108,7 +115,7 @@ class GameScene extends Phaser.Scene {
       .catch(() => {});
   }
 
-  update() {
+  update(time, delta) {
     const { gameSize } = this.scale;
     const isMobile = gameSize.width === CONFIG.GAME.WIDTH.PORTRAIT;
 
@@ -120,11 +127,33 @@ class GameScene extends Phaser.Scene {
     this.inputManager.update();
     this.ui.update(this.isPlaying, gameSize, this.score);
 
+    // The run advances in fixed steps at the physics rate whatever the display's
+    // refresh rate, so the server's replay steps through the same run
+    const { world } = this.physics;
+    const stepMs = 1000 * (1 / world.fps); // the world's own step length, so each update is exactly one step
+    const { MAX_PER_FRAME } = GameScene.CONFIG.GAME.STEPS;
+
+    this.stepTime = Math.min(this.stepTime + delta, stepMs * MAX_PER_FRAME);
+    while (this.stepTime >= stepMs) {
+      this.stepTime -= stepMs;
+      world.update(time, stepMs);
+      world.postUpdate();
+      this.step(isMobile);
+    }
+  }
+
+  /**
+   * Advance the run by one step
+   * @param {boolean} isMobile - Whether game is running in mobile mode
+   */
+  step(isMobile) {
     if (this.isPlaying) {
       this.player.update();
 
       if (this.intro.isComplete) {
         const { GAME, NIGHTMODE } = GameScene.CONFIG;
+
+        this.replayRecorder.record(this.player);
         const { OBSTACLES } = GAME;
 
         if (this.speed < this.maxSpeed) {
@@ -211,7 +240,21 @@ class GameScene extends Phaser.Scene {
    * Handle player collision with obstacle
    */
   onPlayerHitObstacle() {
-    this.events.emit(CONFIG.EVENTS.GAME_OVER, this.score, this.highScore);
+    const isMobile = this.scale.gameSize.width === CONFIG.GAME.WIDTH.PORTRAIT;
+    this.events.emit(
+      CONFIG.EVENTS.GAME_OVER,
+      this.score,
+      this.highScore,
+      this.replayRecorder.getLog(isMobile, this.horizon.initialObstacleMobile),
+    );
+  }
+
+  /**
+   * Handle server-issued seed for the current run
+   * @param {string} seed - Seed for the obstacle generator
+   */
+  onRunSeed(seed) {
+    this.obstacles.seed(seed);
   }
 
   /**
@@ -0,0 +1,76 @@
+import CONFIG from '../../config/game';
+
+/**
+ * Records held input per frame so the server can replay the run
+ * @class ReplayRecorder
+ */
+class ReplayRecorder {
+  static INPUTS = {
+    NONE: 0,
+    JUMP: 1,
+    DUCK: 2,
+  };
+
+  /**
+   * Creates an instance of ReplayRecorder
+   * @param {Phaser.Scene} scene - The Scene to which this ReplayRecorder belongs
+   */
+  constructor(scene) {
+    this.scene = scene;
+    this.reset();
+
+    // Register event handlers
+    scene.events.on(CONFIG.EVENTS.GAME_INTRO_COMPLETE, this.reset, this);
+    scene.events.on(CONFIG.EVENTS.GAME_RESTART, this.reset, this);
+  }
+
+  /**
+   * Record the input held during the current frame
+   * @param {Player} player - Player whose input is recorded
+   */
+  record(player) {
+    const { inputManager } = player;
+    let input = ReplayRecorder.INPUTS.NONE;
+
+    // Same precedence as the player's InputManager
+    if (inputManager.isDuckKeyPressed) {
+      input = ReplayRecorder.INPUTS.DUCK;
+    } else if (inputManager.isJumpKeyPressed) {
+      input = ReplayRecorder.INPUTS.JUMP;
+    }
+
+    // Only store changes to keep the log small
+    if (input !== this.lastInput) {
+      this.inputs.push([this.frame, input]);
+      this.lastInput = input;
+    }
+
+    this.frame += 1;
+  }
+
+  /**
+   * Get the log of the current run
+   * @param {boolean} isMobile - Whether game is running in mobile mode
+   * @param {boolean} firstObstacleMobile - Whether the 1st obstacle was spawned in mobile mode
+   * @returns {{frames: number, inputs: number[][], mobile: boolean, firstObstacleMobile: boolean}}
+   */
+  getLog(isMobile, firstObstacleMobile) {
+    return {
+      frames: this.frame,
+      inputs: this.inputs,
+      mobile: isMobile,
+      firstObstacleMobile,
+    };
+  }
+
+  /**
+   * Reset recorder for a new run
+   */
+  reset() {
+    this.frame = 0;
+    this.inputs = [];
+    this.lastInput = ReplayRecorder.INPUTS.NONE;
+  }
+}
+
+export default ReplayRecorder;
@@ -8,17 +8,36 @@ CREATE TABLE dino_transaction_queue (
     type VARCHAR(20) NOT NULL,  -- 'jump' or 'gameover'
     height INTEGER,             -- jump height (null for gameover)
     score INTEGER NOT NULL,     -- current score or final score
+    username VARCHAR(100),      -- player name (setplayer only)
     timestamp BIGINT NOT NULL,  -- client timestamp in milliseconds
-    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'sent', 'failed'
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'processing', 'sent', 'confirmed', 'failed', 'dead' (moved to dino_dead_letters), 'unsponsored' (over budget, never sent)
     hash VARCHAR(66),           -- transaction hash when sent
     retries INTEGER NOT NULL DEFAULT 0,
     wallet_index INTEGER,       -- which wallet processed this transaction
+    priority SMALLINT NOT NULL DEFAULT 0, -- gameover 100, setplayer 50, jump 10; higher is sent first
+    lease_owner VARCHAR(100),   -- process holding the row while it is 'processing'
+    lease_expires_at TIMESTAMP WITH TIME ZONE, -- row goes back to 'pending' after this unless renewed
+    heartbeat_at TIMESTAMP WITH TIME ZONE,     -- last lease renewal
+    max_fee_per_gas NUMERIC(78, 0),            -- EIP-1559 fees the transaction was sent with (wei)
+    max_priority_fee_per_gas NUMERIC(78, 0),
+    block_number BIGINT,                       -- block that included the hash; 'confirmed' once CONFIRMATION_DEPTH deep
+    block_hash VARCHAR(66),                    -- checked against later receipts to catch reorgs
+    last_error TEXT,                           -- error text from the last failed attempt
+    error_class VARCHAR(20),                   -- 'revert', 'nonce', 'insufficient_funds', 'rpc_timeout', 'unknown'
+    deployment VARCHAR(50) NOT NULL DEFAULT 'testnet', -- deployments.json entry the row is sent to; 'testnet' is the CONTRACT_ADDRESS fallback
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Create index for fast queue processing
 CREATE INDEX idx_dino_transaction_queue_status ON dino_transaction_queue(status, timestamp);
 CREATE INDEX idx_dino_transaction_queue_player ON dino_transaction_queue(player_address);
+CREATE INDEX idx_dino_transaction_queue_priority ON dino_transaction_queue(status, priority DESC, id);
+CREATE INDEX idx_dino_transaction_queue_lease ON dino_transaction_queue(status, lease_expires_at);
+CREATE INDEX idx_dino_transaction_queue_deployment ON dino_transaction_queue(deployment, status, priority DESC, id);
+CREATE INDEX idx_dino_transaction_queue_hash ON dino_transaction_queue(hash);
+
+-- One game over per game, so a game can't be recorded on-chain twice
+CREATE UNIQUE INDEX idx_dino_transaction_queue_game_over ON dino_transaction_queue(game_id) WHERE type = 'gameover';
 
 -- Player Sessions table to track games
 CREATE TABLE dino_player_sessions (
@@ -31,12 +50,15 @@ CREATE TABLE dino_player_sessions (
     highest_jump INTEGER,
     jumps_count INTEGER DEFAULT 0,
     distance_traveled INTEGER,
-    completed BOOLEAN DEFAULT FALSE
+    completed BOOLEAN DEFAULT FALSE,
+    ticket_expires_at TIMESTAMP WITH TIME ZONE,  -- game ticket validity, set by the server at start
+    run_seed VARCHAR(64),  -- seeds the client's obstacle generator for replay verification
+    deployment VARCHAR(50) NOT NULL DEFAULT 'testnet'  -- where the game's transactions go, fixed at start
 );
 
 -- Create index for player lookups
 CREATE INDEX idx_dino_player_sessions_player ON dino_player_sessions(player_address);
-CREATE INDEX idx_dino_player_sessions_game_id ON dino_player_sessions(game_id);
+CREATE UNIQUE INDEX idx_dino_player_sessions_game_id ON dino_player_sessions(game_id);
 
 -- Player Leaderboard 
 CREATE TABLE dino_leaderboard (
@@ -46,8 +68,9 @@ CREATE TABLE dino_leaderboard (
     score INTEGER NOT NULL,
     game_id VARCHAR(50) NOT NULL,
     achieved_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    verified_on_chain BOOLEAN DEFAULT FALSE,
-    tx_hash VARCHAR(66)
+    verified_on_chain BOOLEAN DEFAULT FALSE,  -- the game over is on-chain (confirmation tracker, reconciliation)
+    tx_hash VARCHAR(66),
+    replay_verified BOOLEAN DEFAULT FALSE     -- the run's input log replayed to its score
 );
 
 -- Create index for leaderboard
@@ -94,6 +117,304 @@ CREATE TABLE dino_game_events (
 CREATE INDEX idx_dino_game_events_game_id ON dino_game_events(game_id);
 CREATE INDEX idx_dino_game_events_player ON dino_game_events(player_address);
 
+-- Single-use wallet sign-in challenges
+CREATE TABLE dino_auth_challenges (
+    nonce VARCHAR(64) PRIMARY KEY,
+    player_address VARCHAR(42) NOT NULL,
+    message TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,  -- set when the challenge is consumed
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for challenge cleanup
+CREATE INDEX idx_dino_auth_challenges_expires ON dino_auth_challenges(expires_at);
+
+-- Resumable socket sessions issued after a verified sign-in
+CREATE TABLE dino_auth_sessions (
+    session_id VARCHAR(64) PRIMARY KEY,
+    player_address VARCHAR(42) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for revoking all sessions of a player
+CREATE INDEX idx_dino_auth_sessions_player ON dino_auth_sessions(player_address);
+
+-- Leaderboard runs whose replay did not reproduce the claimed score
+CREATE TABLE dino_replay_reviews (
+    id SERIAL PRIMARY KEY,
+    game_id VARCHAR(50) NOT NULL,
+    player_address VARCHAR(42) NOT NULL,
+    claimed_score INTEGER NOT NULL,
+    replay_score INTEGER,  -- null if the log could not be replayed
+    reason TEXT NOT NULL,
+    run_seed VARCHAR(64),
+    input_log JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',  -- pending, approved, rejected
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for the review queue
+CREATE INDEX idx_dino_replay_reviews_status ON dino_replay_reviews(status, created_at);
+
+-- Sponsored transaction usage per address (or 'global') per hour/day window
+CREATE TABLE dino_sponsorship_usage (
+    subject VARCHAR(42) NOT NULL,
+    period VARCHAR(10) NOT NULL,  -- hour or day
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    tx_count INTEGER NOT NULL DEFAULT 0,
+    gas_used BIGINT NOT NULL DEFAULT 0,
+    PRIMARY KEY (subject, period, period_start)
+);
+
+-- Temporary bans issued by the socket rate limiter
+CREATE TABLE dino_rate_limit_bans (
+    id SERIAL PRIMARY KEY,
+    scope VARCHAR(10) NOT NULL,  -- address or ip
+    subject VARCHAR(64) NOT NULL,
+    reason TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for ban lookups
+CREATE INDEX idx_dino_rate_limit_bans_subject ON dino_rate_limit_bans(subject, expires_at);
+
+-- Next nonce to hand out per relay wallet, shared by the relay and recovery server
+CREATE TABLE dino_wallet_nonces (
+    chain_id INTEGER NOT NULL DEFAULT 50312,
+    address VARCHAR(42) NOT NULL,  -- lowercase
+    next_nonce BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (chain_id, address)
+);
+
+-- Every nonce handed out and the transaction sent with it
+CREATE TABLE dino_nonce_reservations (
+    chain_id INTEGER NOT NULL DEFAULT 50312,
+    address VARCHAR(42) NOT NULL,
+    nonce BIGINT NOT NULL,
+    owner VARCHAR(100) NOT NULL,  -- process that reserved it
+    tx_id INTEGER,                -- dino_transaction_queue row, if any
+    hash VARCHAR(66),             -- latest transaction sent at this nonce
+    status VARCHAR(20) NOT NULL DEFAULT 'reserved', -- reserved, sent, released, cancelled
+    replacements INTEGER NOT NULL DEFAULT 0,  -- fee-bumped resends
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (chain_id, address, nonce)
+);
+
+-- Treasury top-ups of relay wallets
+CREATE TABLE dino_wallet_refills (
+    id SERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL DEFAULT 50312,
+    wallet_address VARCHAR(42) NOT NULL,
+    treasury_address VARCHAR(42) NOT NULL,
+    amount_wei NUMERIC(78, 0) NOT NULL,
+    balance_before_wei NUMERIC(78, 0) NOT NULL,
+    hash VARCHAR(66) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for refill history per wallet
+CREATE INDEX idx_dino_wallet_refills_wallet ON dino_wallet_refills(wallet_address, created_at);
+
+-- Relay wallet circuit breaker state changes
+CREATE TABLE dino_wallet_circuit_events (
+    id SERIAL PRIMARY KEY,
+    wallet_index INTEGER NOT NULL,
+    wallet_address VARCHAR(42) NOT NULL,
+    from_state VARCHAR(10) NOT NULL,  -- closed, open, half-open
+    to_state VARCHAR(10) NOT NULL,
+    reason TEXT,
+    failures INTEGER NOT NULL DEFAULT 0,  -- consecutive failures at the time
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for circuit history per wallet
+CREATE INDEX idx_dino_wallet_circuit_events_wallet ON dino_wallet_circuit_events(wallet_address, created_at);
+
+-- Relay and recovery wallets; keys stay in each server's environment
+CREATE TABLE dino_wallet_pool (
+    pool VARCHAR(50) NOT NULL,  -- relay, recovery, or a pool named in deployments.json
+    address VARCHAR(42) NOT NULL,
+    source VARCHAR(10) NOT NULL,  -- env, mnemonic, keystore, remote
+    key_ref TEXT,  -- env var name, keystore path#entry or remote signer address
+    hd_index INTEGER,  -- derivation index for mnemonic wallets
+    state VARCHAR(10) NOT NULL DEFAULT 'active',  -- active, retiring, retired
+    successor VARCHAR(42),  -- where a retiring wallet's balance goes
+    sweep BOOLEAN NOT NULL DEFAULT FALSE,
+    sweep_hash VARCHAR(66),
+    retired_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (pool, address)
+);
+
+-- Create index for loading a pool's live wallets
+CREATE INDEX idx_dino_wallet_pool_state ON dino_wallet_pool(pool, state);
+
+-- Contract event indexer progress
+CREATE TABLE dino_indexer_checkpoints (
+    name VARCHAR(50) NOT NULL,
+    chain_id INTEGER NOT NULL DEFAULT 50312,
+    contract_address VARCHAR(42) NOT NULL,
+    last_block BIGINT NOT NULL,  -- every event up to and including this block is stored
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (name, chain_id, contract_address)
+);
+
+-- JumpRecorded events
+CREATE TABLE dino_event_jumps (
+    id SERIAL PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    queue_id INTEGER,  -- dino_transaction_queue row that sent it, if any
+    deployment VARCHAR(50) NOT NULL DEFAULT 'testnet',  -- deployment whose contract emitted it
+    player_address VARCHAR(42) NOT NULL,
+    player_name TEXT,  -- chain data, so unbounded
+    height NUMERIC(78, 0) NOT NULL,
+    score NUMERIC(78, 0) NOT NULL,
+    event_timestamp NUMERIC(78, 0) NOT NULL,  -- block timestamp from the contract
+    game_id TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tx_hash, log_index)
+);
+
+-- GameOverRecorded events
+CREATE TABLE dino_event_game_overs (
+    id SERIAL PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    queue_id INTEGER,
+    deployment VARCHAR(50) NOT NULL DEFAULT 'testnet',
+    player_address VARCHAR(42) NOT NULL,
+    player_name TEXT,
+    final_score NUMERIC(78, 0) NOT NULL,
+    event_timestamp NUMERIC(78, 0) NOT NULL,
+    game_id TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tx_hash, log_index)
+);
+
+-- HighScoreAchieved events
+CREATE TABLE dino_event_high_scores (
+    id SERIAL PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    queue_id INTEGER,
+    deployment VARCHAR(50) NOT NULL DEFAULT 'testnet',
+    player_address VARCHAR(42) NOT NULL,
+    player_name TEXT,
+    score NUMERIC(78, 0) NOT NULL,
+    event_timestamp NUMERIC(78, 0) NOT NULL,
+    game_id TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tx_hash, log_index)
+);
+
+-- PlayerRegistered events
+CREATE TABLE dino_event_player_registrations (
+    id SERIAL PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    tx_hash VARCHAR(66) NOT NULL,
+    log_index INTEGER NOT NULL,
+    queue_id INTEGER,
+    deployment VARCHAR(50) NOT NULL DEFAULT 'testnet',
+    player_address VARCHAR(42) NOT NULL,
+    player_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tx_hash, log_index)
+);
+
+-- Create indexes for event lookups per player, game and queue row
+CREATE INDEX idx_dino_event_jumps_game ON dino_event_jumps(game_id);
+CREATE INDEX idx_dino_event_jumps_queue ON dino_event_jumps(queue_id);
+CREATE INDEX idx_dino_event_game_overs_player ON dino_event_game_overs(player_address);
+CREATE INDEX idx_dino_event_game_overs_game ON dino_event_game_overs(game_id);
+CREATE INDEX idx_dino_event_game_overs_queue ON dino_event_game_overs(queue_id);
+CREATE INDEX idx_dino_event_high_scores_player ON dino_event_high_scores(player_address);
+CREATE INDEX idx_dino_event_player_registrations_player ON dino_event_player_registrations(player_address);
+
+-- On-chain reconciliation runs
+CREATE TABLE dino_reconciliation_runs (
+    id SERIAL PRIMARY KEY,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP WITH TIME ZONE,  -- null if the run failed
+    players_checked INTEGER NOT NULL DEFAULT 0,
+    verified INTEGER NOT NULL DEFAULT 0,  -- leaderboard rows found on-chain
+    differences INTEGER NOT NULL DEFAULT 0,
+    corrections INTEGER NOT NULL DEFAULT 0,  -- transactions queued to fix differences
+    queue_corrections BOOLEAN NOT NULL DEFAULT FALSE,
+    deployment VARCHAR(50) NOT NULL DEFAULT 'testnet',  -- deployment whose contract was compared
+    chain_totals JSONB  -- getGlobalStats at the time of the run
+);
+
+-- Differences found by a reconciliation run
+CREATE TABLE dino_reconciliation_diffs (
+    id SERIAL PRIMARY KEY,
+    run_id INTEGER NOT NULL REFERENCES dino_reconciliation_runs(id) ON DELETE CASCADE,
+    player_address VARCHAR(42),  -- null for global totals
+    kind VARCHAR(30) NOT NULL,  -- missing_game_over, high_score, name, total_games, total_jumps, leaderboard_entry, global_stats
+    db_value TEXT,
+    chain_value TEXT,
+    details JSONB,
+    corrected BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for reading a run's report
+CREATE INDEX idx_dino_reconciliation_diffs_run ON dino_reconciliation_diffs(run_id, kind);
+
+-- Idempotency keys of recorded socket events; a resend gets the stored acknowledgement
+CREATE TABLE dino_idempotency_keys (
+    player_address VARCHAR(42) NOT NULL,
+    idempotency_key VARCHAR(100) NOT NULL,  -- chosen by the client per event
+    event_type VARCHAR(20) NOT NULL,  -- 'jump' or 'gameover'
+    response JSONB,  -- acknowledgement sent for the first delivery
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (player_address, idempotency_key)
+);
+
+-- Create index for cleanup
+CREATE INDEX idx_dino_idempotency_keys_created ON dino_idempotency_keys(created_at);
+
+-- Failed transactions that ran out of retries, kept for operators to edit and replay
+CREATE TABLE dino_dead_letters (
+    id SERIAL PRIMARY KEY,
+    queue_id INTEGER,  -- dino_transaction_queue row; the replayed row after a replay
+    deployment VARCHAR(50) NOT NULL DEFAULT 'testnet',
+    player_address VARCHAR(42) NOT NULL,
+    game_id VARCHAR(50) NOT NULL,
+    type VARCHAR(20) NOT NULL,
+    height INTEGER,
+    score INTEGER NOT NULL,
+    username VARCHAR(100),
+    retries INTEGER NOT NULL DEFAULT 0,
+    wallet_index INTEGER,
+    hash VARCHAR(66),  -- last transaction hash sent, if any
+    error_class VARCHAR(20) NOT NULL DEFAULT 'unknown',  -- 'revert', 'nonce', 'insufficient_funds', 'rpc_timeout', 'unknown'
+    last_error TEXT,
+    dead_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    edited_at TIMESTAMP WITH TIME ZONE,
+    replayed_at TIMESTAMP WITH TIME ZONE,
+    replay_count INTEGER NOT NULL DEFAULT 0
+);
+
+-- Create indexes for operator listings
+CREATE INDEX idx_dino_dead_letters_class ON dino_dead_letters(error_class, dead_at DESC);
+CREATE INDEX idx_dino_dead_letters_player ON dino_dead_letters(player_address);
+
 -- Functions and Triggers
 
 -- Update player profiles on game completion
@@ -134,6 +455,20 @@ EXECUTE FUNCTION update_player_profile_after_game();
 CREATE OR REPLACE FUNCTION cleanup_old_transactions() 
 RETURNS void AS $$
 BEGIN
+    -- Keep failures that were never recovered before their rows go
+    WITH dead AS (
+        UPDATE dino_transaction_queue
+        SET status = 'dead'
+        WHERE status = 'failed'
+        AND timestamp < (EXTRACT(EPOCH FROM NOW()) * 1000 - 86400000)
+        RETURNING *
+    )
+    INSERT INTO dino_dead_letters
+        (queue_id, deployment, player_address, game_id, type, height, score, username, retries, wallet_index, hash, error_class, last_error)
+    SELECT id, deployment, player_address, game_id, type, height, score, username, retries, wallet_index, hash,
+           COALESCE(error_class, 'unknown'), last_error
+    FROM dead;
+
     -- Delete transactions older than 24 hours that are not pending
     DELETE FROM dino_transaction_queue 
     WHERE status != 'pending' 
@@ -144,17 +479,73 @@ BEGIN
     SET status = 'failed'
     WHERE status = 'pending'
     AND timestamp < (EXTRACT(EPOCH FROM NOW()) * 1000 - 3600000);
+
+    -- Close games whose ticket ran out without a game over
+    UPDATE dino_player_sessions
+    SET end_time = ticket_expires_at, completed = false
+    WHERE end_time IS NULL
+    AND ticket_expires_at < NOW();
+
+    -- Return rows whose lease ran out to the queue
+    UPDATE dino_transaction_queue
+    SET status = 'pending', retries = retries + 1, wallet_index = NULL,
+        lease_owner = NULL, lease_expires_at = NULL, heartbeat_at = NULL
+    WHERE status = 'processing'
+    AND (lease_expires_at IS NULL OR lease_expires_at < NOW());
+
+    -- Remove expired sign-in challenges
+    DELETE FROM dino_auth_challenges
+    WHERE expires_at < NOW() - INTERVAL '1 hour';
+
+    -- Remove expired sessions
+    DELETE FROM dino_auth_sessions
+    WHERE expires_at < NOW() - INTERVAL '1 day';
+
+    -- Remove finished sponsorship windows
+    DELETE FROM dino_sponsorship_usage
+    WHERE period_start < NOW() - INTERVAL '2 days';
+
+    -- Remove old circuit breaker history
+    DELETE FROM dino_wallet_circuit_events
+    WHERE created_at < NOW() - INTERVAL '30 days';
+
+    -- Remove old nonce reservations
+    DELETE FROM dino_nonce_reservations
+    WHERE updated_at < NOW() - INTERVAL '1 day';
+
+    -- Remove idempotency keys older than any resend
+    DELETE FROM dino_idempotency_keys
+    WHERE created_at < NOW() - INTERVAL '1 day';
+
+    -- Remove replayed dead letters
+    DELETE FROM dino_dead_letters
+    WHERE replayed_at < NOW() - INTERVAL '30 days';
+
+    -- Remove old reconciliation reports (differences go with their run)
+    DELETE FROM dino_reconciliation_runs
+    WHERE started_at < NOW() - INTERVAL '30 days';
+
+    -- Remove lifted bans
+    DELETE FROM dino_rate_limit_bans
+    WHERE expires_at < NOW() - INTERVAL '7 days';
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to get next batch of pending transactions
-CREATE OR REPLACE FUNCTION get_next_pending_transactions(batch_size INTEGER)
+-- Queue priority plus one point per aging_ms waited, up to max_boost.
+-- The server orders by this with QUEUE_AGING_MS and QUEUE_MAX_AGING_BOOST (server/src/queue-priority.ts)
+CREATE OR REPLACE FUNCTION dino_queue_effective_priority(priority INTEGER, queued_at BIGINT, aging_ms INTEGER, max_boost INTEGER)
+RETURNS BIGINT AS $$
+    SELECT priority + LEAST(max_boost, FLOOR(GREATEST(0, EXTRACT(EPOCH FROM NOW()) * 1000 - queued_at) / aging_ms))::BIGINT;
+$$ LANGUAGE sql STABLE;
+
+-- Function to get next batch of pending transactions, aged as the server does
+CREATE OR REPLACE FUNCTION get_next_pending_transactions(batch_size INTEGER, aging_ms INTEGER, max_boost INTEGER)
 RETURNS SETOF dino_transaction_queue AS $$
 BEGIN
     RETURN QUERY
     SELECT * FROM dino_transaction_queue
     WHERE status = 'pending'
-    ORDER BY timestamp ASC
+    ORDER BY dino_queue_effective_priority(priority, timestamp, aging_ms, max_boost) DESC, id ASC
     LIMIT batch_size
     FOR UPDATE SKIP LOCKED;
 END;